@@ -1,13 +1,9 @@
 import { defineConfig, devices } from '@playwright/test';
-import dotenv from 'dotenv';
 /**
- * Load environment variables from .env file.
- * This is useful for local development and testing.
+ * Load the environment profile (TEST_ENV) from .env and the environment variables.
+ * Importing it validates the profile, so a missing URL or credential fails the run at startup.
  */
-dotenv.config();
-
-// import path from 'path';
-// dotenv.config({ path: path.resolve(__dirname, '.env') });
+import { ENVIRONMENT } from './tests/common/utils/environment';
 
 /**
  * See https://playwright.dev/docs/test-configuration.
@@ -27,13 +23,15 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: process.env.BASE_URL || 'http://localhost:3000',
+    baseURL: ENVIRONMENT.baseUrl,
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
   },
 
-  snapshotPathTemplate: 'visual-snapshots/{projectName}/{testFilePath}/{arg}{ext}',
+  /* Visual baselines are stored per environment profile and project, so the stub's pages are never compared with the
+     demo site's, and layout regressions are caught in every browser and viewport */
+  snapshotPathTemplate: `visual-snapshots/${ENVIRONMENT.name}/{projectName}/{testFilePath}/{arg}{ext}`,
 
   expect: {
     // Configuration for expect(page).toHaveScreenshot()
@@ -44,28 +42,28 @@ export default defineConfig({
     },
   },
 
-  /* Configure projects for major browsers */
+  /* Configure projects for major browsers. Each project keeps its own visual baselines (see snapshotPathTemplate). */
   projects: [
     {
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
     },
 
-    // {
-    //   name: 'firefox',
-    //   use: { ...devices['Desktop Firefox'] },
-    // },
+    {
+      name: 'firefox',
+      use: { ...devices['Desktop Firefox'] },
+    },
 
-    // {
-    //   name: 'webkit',
-    //   use: { ...devices['Desktop Safari'] },
-    // },
+    {
+      name: 'webkit',
+      use: { ...devices['Desktop Safari'] },
+    },
 
-    /* Test against mobile viewports. */
-    // {
-    //   name: 'Mobile Chrome',
-    //   use: { ...devices['Pixel 5'] },
-    // },
+    /* Test against mobile viewports, where the navigation links are collapsed behind the hamburger menu. */
+    {
+      name: 'Mobile Chrome',
+      use: { ...devices['Pixel 5'] },
+    },
     // {
     //   name: 'Mobile Safari',
     //   use: { ...devices['iPhone 12'] },
@@ -82,10 +80,14 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* Start the bundled stub server (stub-server/) when the local profile has not been pointed at a real deployment */
+  webServer: !ENVIRONMENT.usesStubServer
+    ? undefined
+    : {
+        command: 'npm run stub:start',
+        url: `${ENVIRONMENT.apiUrl}/branding`,
+        reuseExistingServer: !process.env.CI,
+        stdout: 'ignore',
+        stderr: 'pipe',
+      },
 });
@@ -0,0 +1,434 @@
+/**
+ * @file This file defines the JSON API routes served by the local stub server under `/api`.
+ * The paths come from `BookingEndpoints` so the stub and the API clients in the test suite
+ * always agree. Each route mirrors the status codes and payloads of the live Shady Meadows
+ * API closely enough for the auth, booking, room and message specs to run against it.
+ */
+
+import { BookingEndpoints } from '../tests/common/utils/constants';
+import {
+  BOOKING_CONFLICT_ERROR,
+  BookingPayload,
+  MessagePayload,
+  RoomPayload,
+  StubBooking,
+  STUB_ADMIN_PASSWORD,
+  STUB_ADMIN_USERNAME,
+  addBooking,
+  addMessage,
+  addRoom,
+  asRecord,
+  bookings,
+  branding,
+  calculateTotalPrice,
+  createSession,
+  endSession,
+  findOverlappingBookings,
+  isValidSession,
+  messages,
+  rooms,
+  validateBooking,
+  validateBranding,
+  validateMessage,
+  validateRoom,
+} from './store';
+
+export interface ApiRequest {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  malformedBody: boolean;
+  token?: string;
+  // The token lifetime requested through `STUB_TOKEN_TTL_HEADER`, if any
+  tokenTtlMs?: number;
+}
+
+export interface ApiResponse {
+  status: number;
+  body?: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  requiresAuth?: boolean;
+  acceptsMalformedBody?: boolean;
+  handle: (request: ApiRequest) => ApiResponse;
+}
+
+const UNAUTHORISED: ApiResponse = { status: 401, body: { error: 'Authentication required' } };
+
+/**
+ * Builds an anchored route pattern from an endpoint path. `:id` segments capture a numeric ID and
+ * trailing slashes are ignored, so `/booking/` and `/booking` resolve to the same route.
+ */
+function path(endpoint: string, suffix: string = ''): RegExp {
+  const source = `/api${endpoint}${suffix}`.replace(/\/+$/, '').replace(/\/+/g, '/').replace(/:id/g, '(\\d+)');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Reads the session token from a `{ token }` body, falling back to the request's token cookie.
+ */
+function tokenFrom(body: unknown, requestToken: string | undefined): string | undefined {
+  const { token } = asRecord(body);
+  return typeof token === 'string' ? token : requestToken;
+}
+
+const notFound = (entity: string): ApiResponse => ({ status: 404, body: { error: `${entity} not found` } });
+
+/**
+ * Resolves the room for a validated booking payload, rejects overlapping stays and calculates the total price.
+ */
+function toBooking(body: BookingPayload, existing?: StubBooking): { booking?: Omit<StubBooking, 'bookingid'>; error?: ApiResponse } {
+  const room = rooms.get(Number(body.roomid));
+  if (!room) {
+    return { error: notFound('Room') };
+  }
+  const { checkin, checkout } = body.bookingdates;
+  if (findOverlappingBookings(room.roomid, checkin, checkout, existing?.bookingid).length > 0) {
+    return { error: { status: 409, body: { error: BOOKING_CONFLICT_ERROR } } };
+  }
+  return {
+    booking: {
+      roomid: room.roomid,
+      firstname: body.firstname,
+      lastname: body.lastname,
+      email: body.email,
+      phone: body.phone,
+      depositpaid: Boolean(body.depositpaid),
+      totalprice: calculateTotalPrice(room, checkin, checkout),
+      bookingdates: { checkin, checkout },
+    },
+  };
+}
+
+const routes: Route[] = [
+  {
+    method: 'POST',
+    pattern: path(BookingEndpoints.Login),
+    acceptsMalformedBody: true,
+    handle: ({ body, malformedBody, tokenTtlMs }) => {
+      const { username, password } = asRecord(body);
+      if (malformedBody || username !== STUB_ADMIN_USERNAME || password !== STUB_ADMIN_PASSWORD) {
+        return { status: 401, body: { error: 'Invalid credentials' } };
+      }
+      return { status: 200, body: { token: createSession(tokenTtlMs) } };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: path(BookingEndpoints.ValidateToken),
+    handle: ({ body, token }) => {
+      const valid = isValidSession(tokenFrom(body, token));
+      return { status: valid ? 200 : 403, body: { valid } };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: path(BookingEndpoints.Logout),
+    handle: ({ body, token }) => {
+      endSession(tokenFrom(body, token));
+      return { status: 200, body: { success: true } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.RoomBasePath),
+    handle: ({ query }) => {
+      const checkin = query.get('checkin');
+      const checkout = query.get('checkout');
+      const available = [...rooms.values()].filter(
+        room => !checkin || !checkout || findOverlappingBookings(room.roomid, checkin, checkout).length === 0
+      );
+      return { status: 200, body: { rooms: available } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.RoomBasePath, ':id'),
+    handle: ({ params }) => {
+      const room = rooms.get(Number(params[0]));
+      return room ? { status: 200, body: room } : notFound('Room');
+    },
+  },
+  {
+    method: 'POST',
+    pattern: path(BookingEndpoints.RoomBasePath),
+    requiresAuth: true,
+    handle: ({ body }) => {
+      const errors = validateRoom(body);
+      if (errors.length > 0) {
+        return { status: 400, body: { errors } };
+      }
+      const payload = body as RoomPayload;
+      const room = addRoom({
+        roomName: payload.roomName,
+        type: payload.type,
+        accessible: Boolean(payload.accessible),
+        image: payload.image || '/assets/room.svg',
+        description: payload.description || '',
+        features: payload.features || [],
+        roomPrice: payload.roomPrice,
+      });
+      return { status: 201, body: room };
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: path(BookingEndpoints.RoomBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params, body }) => {
+      const room = rooms.get(Number(params[0]));
+      if (!room) {
+        return notFound('Room');
+      }
+      const errors = validateRoom(body);
+      if (errors.length > 0) {
+        return { status: 400, body: { errors } };
+      }
+      const payload = body as RoomPayload;
+      Object.assign(room, {
+        roomName: payload.roomName,
+        type: payload.type,
+        accessible: Boolean(payload.accessible),
+        image: payload.image || room.image,
+        description: payload.description ?? room.description,
+        features: payload.features ?? room.features,
+        roomPrice: payload.roomPrice,
+      });
+      return { status: 200, body: room };
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: path(BookingEndpoints.RoomBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params }) => {
+      const roomid = Number(params[0]);
+      if (!rooms.delete(roomid)) {
+        return notFound('Room');
+      }
+      [...bookings.values()].filter(booking => booking.roomid === roomid).forEach(booking => bookings.delete(booking.bookingid));
+      return { status: 200, body: { success: true } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.BookingBasePath),
+    requiresAuth: true,
+    handle: ({ query }) => {
+      const roomid = query.get('roomid');
+      const matching = [...bookings.values()].filter(booking => !roomid || booking.roomid === Number(roomid));
+      return { status: 200, body: { bookings: matching } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.BookingBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params }) => {
+      const booking = bookings.get(Number(params[0]));
+      return booking ? { status: 200, body: booking } : notFound('Booking');
+    },
+  },
+  {
+    method: 'POST',
+    pattern: path(BookingEndpoints.BookingBasePath),
+    handle: ({ body }) => {
+      const errors = validateBooking(body);
+      if (errors.length > 0) {
+        return { status: 400, body: { errors } };
+      }
+      const result = toBooking(body as BookingPayload);
+      return result.error ?? { status: 201, body: addBooking(result.booking!) };
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: path(BookingEndpoints.BookingBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params, body }) => {
+      const existing = bookings.get(Number(params[0]));
+      if (!existing) {
+        return notFound('Booking');
+      }
+      const errors = validateBooking(body);
+      if (errors.length > 0) {
+        return { status: 400, body: { errors } };
+      }
+      const result = toBooking(body as BookingPayload, existing);
+      if (result.error) {
+        return result.error;
+      }
+      Object.assign(existing, result.booking);
+      return { status: 200, body: existing };
+    },
+  },
+  {
+    method: 'PATCH',
+    pattern: path(BookingEndpoints.BookingBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params, body }) => {
+      const existing = bookings.get(Number(params[0]));
+      if (!existing) {
+        return notFound('Booking');
+      }
+      const updates = asRecord(body);
+      const merged = {
+        ...existing,
+        ...updates,
+        bookingdates: { ...existing.bookingdates, ...asRecord(updates.bookingdates) },
+      };
+      const errors = validateBooking(merged);
+      if (errors.length > 0) {
+        return { status: 400, body: { errors } };
+      }
+      const result = toBooking(merged as BookingPayload, existing);
+      if (result.error) {
+        return result.error;
+      }
+      Object.assign(existing, result.booking);
+      return { status: 200, body: existing };
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: path(BookingEndpoints.BookingBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params }) => (bookings.delete(Number(params[0])) ? { status: 200, body: { success: true } } : notFound('Booking')),
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.ReportBasePath),
+    requiresAuth: true,
+    handle: () => {
+      const report = [...bookings.values()].map(booking => ({
+        start: booking.bookingdates.checkin,
+        end: booking.bookingdates.checkout,
+        title: `${booking.firstname} ${booking.lastname} - Room: ${rooms.get(booking.roomid)?.roomName ?? booking.roomid}`,
+        bookingid: booking.bookingid,
+        roomid: booking.roomid,
+      }));
+      return { status: 200, body: { report } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.ReportBasePath, 'room/:id'),
+    handle: ({ params }) => {
+      const roomid = Number(params[0]);
+      const report = [...bookings.values()]
+        .filter(booking => booking.roomid === roomid)
+        .map(booking => ({ start: booking.bookingdates.checkin, end: booking.bookingdates.checkout, title: 'Unavailable' }));
+      return { status: 200, body: { report } };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: path(BookingEndpoints.MessageBasePath),
+    handle: ({ body }) => {
+      const errors = validateMessage(body);
+      if (errors.length > 0) {
+        return { status: 400, body: { errors } };
+      }
+      const { name, email, phone, subject, description } = body as MessagePayload;
+      const message = addMessage({ name, email, phone, subject, description, read: false });
+      return { status: 201, body: message };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.MessageBasePath),
+    requiresAuth: true,
+    handle: () => {
+      const summaries = [...messages.values()].map(({ messageid, name, subject, read }) => ({ id: messageid, name, subject, read }));
+      return { status: 200, body: { messages: summaries } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.MessageCount),
+    requiresAuth: true,
+    handle: () => ({ status: 200, body: { count: [...messages.values()].filter(message => !message.read).length } }),
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.MessageBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params }) => {
+      const message = messages.get(Number(params[0]));
+      return message ? { status: 200, body: message } : notFound('Message');
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: path(BookingEndpoints.MessageBasePath, ':id/read'),
+    requiresAuth: true,
+    handle: ({ params }) => {
+      const message = messages.get(Number(params[0]));
+      if (!message) {
+        return notFound('Message');
+      }
+      message.read = true;
+      return { status: 200, body: { success: true } };
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: path(BookingEndpoints.MessageBasePath, ':id'),
+    requiresAuth: true,
+    handle: ({ params }) => (messages.delete(Number(params[0])) ? { status: 200, body: { success: true } } : notFound('Message')),
+  },
+  {
+    method: 'GET',
+    pattern: path(BookingEndpoints.BrandingBasePath),
+    handle: () => ({ status: 200, body: branding }),
+  },
+  {
+    method: 'PUT',
+    pattern: path(BookingEndpoints.BrandingBasePath),
+    requiresAuth: true,
+    handle: ({ body }) => {
+      const updates: Record<string, unknown> = { ...branding, ...asRecord(body) };
+      const errors = validateBranding(updates);
+      if (errors.length > 0) {
+        return { status: 400, body: { errors } };
+      }
+      (['name', 'description', 'address', 'phone', 'email'] as const).forEach(key => {
+        const value = updates[key];
+        if (typeof value === 'string') {
+          branding[key] = value;
+        }
+      });
+      return { status: 200, body: branding };
+    },
+  },
+];
+
+/**
+ * Dispatches an API request to the matching route.
+ *
+ * @param pathname The request path, including the `/api` prefix.
+ * @param request The parsed request details.
+ * @returns The response to send, or `undefined` if no route matches the path and method.
+ */
+export function handleApiRequest(pathname: string, request: Omit<ApiRequest, 'params'>): ApiResponse | undefined {
+  const normalisedPath = pathname.replace(/\/+$/, '');
+
+  for (const route of routes) {
+    const match = normalisedPath.match(route.pattern);
+    if (!match || route.method !== request.method) {
+      continue;
+    }
+    if (route.requiresAuth && !isValidSession(request.token)) {
+      return UNAUTHORISED;
+    }
+    if (request.malformedBody && !route.acceptsMalformedBody) {
+      return { status: 400, body: { error: 'Malformed JSON body' } };
+    }
+    return route.handle({ ...request, params: match.slice(1) });
+  }
+  return undefined;
+}
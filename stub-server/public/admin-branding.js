@@ -0,0 +1,36 @@
+/**
+ * Behaviour for the stub admin branding page: editing the B&B name, description and contact details.
+ */
+(function () {
+  const { api, errorsFrom, renderErrors } = window.Stub;
+  const fields = { name: 'name', description: 'description', address: 'contactAddress', phone: 'contactPhone', email: 'contactEmail' };
+  const modal = document.getElementById('brandingModal');
+
+  async function loadBranding() {
+    const { data } = await api('GET', '/branding');
+    Object.entries(fields).forEach(([key, id]) => {
+      document.getElementById(id).value = data[key] || '';
+    });
+  }
+
+  document.getElementById('brandingForm').addEventListener('submit', async event => {
+    event.preventDefault();
+    const updates = {};
+    Object.entries(fields).forEach(([key, id]) => {
+      updates[key] = document.getElementById(id).value;
+    });
+    const { ok, data } = await api('PUT', '/branding', updates);
+    if (!ok) {
+      renderErrors(document.getElementById('brandingErrors'), errorsFrom(data), 'p');
+      return;
+    }
+    renderErrors(document.getElementById('brandingErrors'), [], 'p');
+    modal.hidden = false;
+  });
+
+  document.getElementById('closeBrandingModal').addEventListener('click', () => {
+    modal.hidden = true;
+  });
+
+  window.Stub.adminSession.then(valid => valid && loadBranding());
+})();
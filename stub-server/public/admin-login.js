@@ -0,0 +1,22 @@
+/**
+ * Behaviour for the stub admin login page. A successful login stores the session
+ * token in the `token` cookie, as the live admin panel does.
+ */
+(function () {
+  const { api, errorsFrom, renderErrors, setCookie } = window.Stub;
+  const loginError = document.getElementById('loginError');
+
+  document.getElementById('loginForm').addEventListener('submit', async event => {
+    event.preventDefault();
+    const { ok, data } = await api('POST', '/auth/login', {
+      username: document.getElementById('username').value,
+      password: document.getElementById('password').value,
+    });
+    if (!ok) {
+      renderErrors(loginError, errorsFrom(data), 'span');
+      return;
+    }
+    setCookie('token', data.token);
+    window.location.assign('/admin/rooms');
+  });
+})();
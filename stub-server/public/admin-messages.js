@@ -0,0 +1,63 @@
+/**
+ * Behaviour for the stub admin messages inbox: listing enquiries, reading them and deleting them.
+ */
+(function () {
+  const { api, escapeHtml, refreshUnreadCount } = window.Stub;
+  const messageList = document.getElementById('messageList');
+  const modal = document.getElementById('messageModal');
+
+  async function renderMessages() {
+    const { data } = await api('GET', '/message');
+    messageList.innerHTML = (data.messages || [])
+      .map(
+        (message, index) => `
+        <div class="row detail read-${message.read}" id="message${index}" data-message-id="${message.id}">
+          <div class="col-sm-2 rowBorder"><p id="message-name${index}" data-testid="message${index}">${escapeHtml(message.name)}</p></div>
+          <div class="col-sm-9"><p data-testid="messageDescription${index}">${escapeHtml(message.subject)}</p></div>
+          <div class="col-sm-1"><button type="button" class="btn btn-link roomDelete" aria-label="Delete message from ${escapeHtml(message.name)}" data-testid="DeleteMessage${index}" data-delete="${message.id}">&times;</button></div>
+        </div>`
+      )
+      .join('');
+    refreshUnreadCount();
+  }
+
+  async function openMessage(messageId) {
+    const { ok, data } = await api('GET', `/message/${messageId}`);
+    if (!ok) {
+      return;
+    }
+    modal.querySelector('[role="dialog"]').innerHTML = `
+      <div class="message-modal-header">
+        <p><span>From: </span><span data-field="name">${escapeHtml(data.name)}</span></p>
+        <p><span>Phone: </span><span data-field="phone">${escapeHtml(data.phone)}</span></p>
+        <p><span>Email: </span><span data-field="email">${escapeHtml(data.email)}</span></p>
+      </div>
+      <p id="messageModalSubject" data-field="subject">${escapeHtml(data.subject)}</p>
+      <p data-field="description">${escapeHtml(data.description)}</p>
+      <button type="button" class="btn btn-outline-primary" data-close>Close</button>`;
+    modal.hidden = false;
+    await api('PUT', `/message/${messageId}/read`);
+    renderMessages();
+  }
+
+  messageList.addEventListener('click', async event => {
+    const deleteButton = event.target.closest('[data-delete]');
+    if (deleteButton) {
+      await api('DELETE', `/message/${deleteButton.dataset.delete}`);
+      renderMessages();
+      return;
+    }
+    const row = event.target.closest('[data-message-id]');
+    if (row) {
+      openMessage(row.dataset.messageId);
+    }
+  });
+
+  modal.addEventListener('click', event => {
+    if (event.target.closest('[data-close]') || event.target === modal) {
+      modal.hidden = true;
+    }
+  });
+
+  window.Stub.adminSession.then(valid => valid && renderMessages());
+})();
@@ -0,0 +1,12 @@
+/**
+ * Behaviour for the stub admin report page: a month calendar of every booking, titled with
+ * the guest's name and room.
+ */
+(function () {
+  const { createAvailabilityCalendar, startOfToday } = window.Stub;
+
+  window.Stub.adminSession.then(
+    valid =>
+      valid && createAvailabilityCalendar(document.getElementById('reportCalendar'), { reportPath: '/report', initialDate: startOfToday() })
+  );
+})();
@@ -0,0 +1,81 @@
+/**
+ * Behaviour for the stub admin room editor: showing a room's details and editing them.
+ */
+(function () {
+  const { api, errorsFrom, escapeHtml, renderErrors } = window.Stub;
+  const editor = document.getElementById('roomEditor');
+  const roomId = editor.dataset.roomId;
+  const form = document.getElementById('editRoomForm');
+  const roomErrors = document.getElementById('roomErrors');
+  let room;
+
+  function renderSummary() {
+    document.getElementById('roomHeading').textContent = `Room: ${room.roomName}`;
+    const rows = [
+      ['Type', room.type],
+      ['Accessible', String(room.accessible)],
+      ['Room price', String(room.roomPrice)],
+      ['Features', room.features.length > 0 ? room.features.join(', ') : 'No features added to the room'],
+      ['Description', room.description],
+    ];
+    document.getElementById('roomSummary').innerHTML = rows
+      .map(([label, value]) => `<div class="room-summary-row"><dt>${label}</dt><dd data-field="${label}">${escapeHtml(value)}</dd></div>`)
+      .join('');
+  }
+
+  function showForm(visible) {
+    form.hidden = !visible;
+    document.getElementById('roomSummary').hidden = visible;
+    document.getElementById('editRoom').hidden = visible;
+    if (!visible) {
+      return;
+    }
+    document.getElementById('roomName').value = room.roomName;
+    document.getElementById('type').value = room.type;
+    document.getElementById('accessible').value = String(room.accessible);
+    document.getElementById('roomPrice').value = String(room.roomPrice);
+    document.getElementById('description').value = room.description;
+    form.querySelectorAll('input[type="checkbox"]').forEach(checkbox => {
+      checkbox.checked = room.features.includes(checkbox.value);
+    });
+  }
+
+  async function loadRoom() {
+    const { ok, data } = await api('GET', `/room/${roomId}`);
+    if (!ok) {
+      renderErrors(roomErrors, errorsFrom(data), 'p');
+      return;
+    }
+    room = data;
+    renderSummary();
+  }
+
+  document.getElementById('editRoom').addEventListener('click', () => showForm(true));
+  document.getElementById('cancelEdit').addEventListener('click', () => {
+    renderErrors(roomErrors, [], 'p');
+    showForm(false);
+  });
+
+  form.addEventListener('submit', async event => {
+    event.preventDefault();
+    const price = document.getElementById('roomPrice').value.trim();
+    const { ok, data } = await api('PUT', `/room/${roomId}`, {
+      roomName: document.getElementById('roomName').value,
+      type: document.getElementById('type').value,
+      accessible: document.getElementById('accessible').value === 'true',
+      roomPrice: price === '' ? null : Number(price),
+      description: document.getElementById('description').value,
+      features: [...form.querySelectorAll('input[type="checkbox"]:checked')].map(checkbox => checkbox.value),
+    });
+    if (!ok) {
+      renderErrors(roomErrors, errorsFrom(data), 'p');
+      return;
+    }
+    renderErrors(roomErrors, [], 'p');
+    room = data;
+    renderSummary();
+    showForm(false);
+  });
+
+  window.Stub.adminSession.then(valid => valid && loadRoom());
+})();
@@ -0,0 +1,59 @@
+/**
+ * Behaviour for the stub admin rooms page: the room listing, creating rooms and deleting them.
+ */
+(function () {
+  const { api, errorsFrom, escapeHtml, renderErrors } = window.Stub;
+  const roomErrors = document.getElementById('roomErrors');
+  const form = document.getElementById('createRoomForm');
+
+  async function renderRoomListing() {
+    const { data } = await api('GET', '/room');
+    document.getElementById('roomListing').innerHTML = (data.rooms || [])
+      .map(
+        room => `
+        <div class="row room-listing-row" data-testid="roomlisting" id="room${room.roomid}" data-room-id="${room.roomid}">
+          <div class="col-sm-1"><p id="roomName${escapeHtml(room.roomName)}">${escapeHtml(room.roomName)}</p></div>
+          <div class="col-sm-2"><p id="type${escapeHtml(room.type)}">${escapeHtml(room.type)}</p></div>
+          <div class="col-sm-2"><p id="accessible${room.accessible}">${room.accessible}</p></div>
+          <div class="col-sm-1"><p id="roomPrice${room.roomPrice}">${room.roomPrice}</p></div>
+          <div class="col-sm-5"><p id="details${room.roomid}">${room.features.length > 0 ? escapeHtml(room.features.join(', ')) : 'No features added to the room'}</p></div>
+          <div class="col-sm-1"><button type="button" class="btn btn-link roomDelete" aria-label="Delete room ${escapeHtml(room.roomName)}" data-delete="${room.roomid}">&times;</button></div>
+        </div>`
+      )
+      .join('');
+  }
+
+  document.getElementById('roomListing').addEventListener('click', async event => {
+    const deleteButton = event.target.closest('[data-delete]');
+    if (deleteButton) {
+      await api('DELETE', `/room/${deleteButton.dataset.delete}`);
+      renderRoomListing();
+      return;
+    }
+    const row = event.target.closest('[data-room-id]');
+    if (row) {
+      window.location.assign(`/admin/room/${row.dataset.roomId}`);
+    }
+  });
+
+  form.addEventListener('submit', async event => {
+    event.preventDefault();
+    const price = document.getElementById('roomPrice').value.trim();
+    const { ok, data } = await api('POST', '/room', {
+      roomName: document.getElementById('roomName').value,
+      type: document.getElementById('type').value,
+      accessible: document.getElementById('accessible').value === 'true',
+      roomPrice: price === '' ? null : Number(price),
+      features: [...form.querySelectorAll('input[type="checkbox"]:checked')].map(checkbox => checkbox.value),
+    });
+    if (!ok) {
+      renderErrors(roomErrors, errorsFrom(data), 'p');
+      return;
+    }
+    renderErrors(roomErrors, [], 'p');
+    form.reset();
+    renderRoomListing();
+  });
+
+  window.Stub.adminSession.then(valid => valid && renderRoomListing());
+})();
@@ -0,0 +1,30 @@
+/**
+ * Behaviour shared by the stub admin pages: session validation, the unread messages
+ * badge and logout. Page scripts wait on `Stub.adminSession` before loading any data.
+ */
+(function () {
+  const { api, clearCookie, getCookie } = window.Stub;
+
+  async function requireSession() {
+    const { ok } = await api('POST', '/auth/validate', { token: getCookie('token') });
+    if (!ok) {
+      window.location.assign('/admin');
+    }
+    return ok;
+  }
+
+  async function refreshUnreadCount() {
+    const { ok, data } = await api('GET', '/message/count');
+    document.getElementById('unreadCount').textContent = ok && data.count > 0 ? String(data.count) : '';
+  }
+
+  document.getElementById('logout').addEventListener('click', async () => {
+    await api('POST', '/auth/logout', { token: getCookie('token') });
+    clearCookie('token');
+    window.location.assign('/');
+  });
+
+  window.Stub.adminSession = requireSession();
+  window.Stub.refreshUnreadCount = refreshUnreadCount;
+  window.Stub.adminSession.then(valid => valid && refreshUnreadCount());
+})();
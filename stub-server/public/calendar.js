@@ -0,0 +1,145 @@
+/**
+ * A month view of bookings that reproduces the react-big-calendar markup used on the live
+ * reservation page and admin report. As in react-big-calendar, each week (`.rbc-month-row`) holds a
+ * background row of day cells, a row of date cells, and one row per event level in which
+ * `.rbc-row-segment`s span the days of each event, sized by their flex-basis, with empty segments
+ * filling the gaps. Events are titled as the report endpoint returns them ("Unavailable" for guests),
+ * and the guest's selected stay is highlighted in the background row.
+ */
+(function () {
+  const { MONTHS, addDays, api, escapeHtml, parseIsoDate, toIsoDate } = window.Stub;
+  const DAY_HEADERS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  // Share of the week a segment spanning `days` days takes, as react-big-calendar writes it
+  function segmentStyle(days) {
+    const percent = `${(days / 7) * 100}%`;
+    return `flex-basis: ${percent}; max-width: ${percent};`;
+  }
+
+  function daysBetween(from, to) {
+    return Math.round((to - from) / DAY_MS);
+  }
+
+  function createAvailabilityCalendar(element, { roomId, reportPath = `/report/room/${roomId}`, initialDate, selection }) {
+    let viewMonth = new Date(initialDate.getFullYear(), initialDate.getMonth(), 1);
+    let events = [];
+
+    function inSelection(iso) {
+      return selection && selection.checkin <= iso && iso < selection.checkout;
+    }
+
+    // Places the week's events on levels, so events on the same level never share a day
+    function eventLevels(weekStart) {
+      const weekEnd = addDays(weekStart, 7);
+      const segments = events
+        .filter(event => event.start < weekEnd && weekStart < event.end)
+        .map(event => {
+          const left = Math.max(daysBetween(weekStart, event.start), 0);
+          const right = Math.min(daysBetween(weekStart, event.end), 7) - 1;
+          return { event, left, right, continuesPrior: event.start < weekStart, continuesAfter: weekEnd < event.end };
+        })
+        .sort((first, second) => first.left - second.left || second.right - first.right);
+
+      const levels = [];
+      segments.forEach(segment => {
+        const level = levels.find(placed => placed.every(other => other.right < segment.left || segment.right < other.left));
+        level ? level.push(segment) : levels.push([segment]);
+      });
+      return levels.map(level => level.sort((first, second) => first.left - second.left));
+    }
+
+    function renderLevel(level) {
+      let column = 0;
+      const cells = level.map(({ event, left, right, continuesPrior, continuesAfter }) => {
+        const gap = left > column ? `<div class="rbc-row-segment" style="${segmentStyle(left - column)}"></div>` : '';
+        const classes = ['rbc-event', continuesPrior && 'rbc-event-continues-prior', continuesAfter && 'rbc-event-continues-after']
+          .filter(Boolean)
+          .join(' ');
+        column = right + 1;
+        return `${gap}<div class="rbc-row-segment" style="${segmentStyle(right - left + 1)}"><div tabindex="0" class="${classes}"><div class="rbc-event-content" title="${escapeHtml(event.title)}">${escapeHtml(event.title)}</div></div></div>`;
+      });
+      return `<div class="rbc-row">${cells.join('')}</div>`;
+    }
+
+    function render() {
+      const firstOfMonth = new Date(viewMonth.getFullYear(), viewMonth.getMonth(), 1);
+      const gridStart = addDays(firstOfMonth, -((firstOfMonth.getDay() + 6) % 7));
+      const todayIso = toIsoDate(new Date());
+      const weeks = [];
+      for (let week = 0; week < 6; week++) {
+        const weekStart = addDays(gridStart, week * 7);
+        const backgrounds = [];
+        const dateCells = [];
+        for (let day = 0; day < 7; day++) {
+          const date = addDays(weekStart, day);
+          const iso = toIsoDate(date);
+          const offRange = date.getMonth() !== viewMonth.getMonth();
+          const background = [
+            'rbc-day-bg',
+            offRange && 'rbc-off-range-bg',
+            iso === todayIso && 'rbc-today',
+            inSelection(iso) && 'rbc-selected-cell',
+          ];
+          backgrounds.push(`<div class="${background.filter(Boolean).join(' ')}"></div>`);
+          const cell = ['rbc-date-cell', offRange && 'rbc-off-range', iso === todayIso && 'rbc-now'];
+          dateCells.push(
+            `<div class="${cell.filter(Boolean).join(' ')}" role="cell"><button type="button" class="rbc-button-link" role="cell">${String(date.getDate()).padStart(2, '0')}</button></div>`
+          );
+        }
+        weeks.push(`
+          <div class="rbc-month-row" role="rowgroup">
+            <div class="rbc-row-bg">${backgrounds.join('')}</div>
+            <div class="rbc-row-content" role="row">
+              <div class="rbc-row">${dateCells.join('')}</div>
+              ${eventLevels(weekStart).map(renderLevel).join('')}
+            </div>
+          </div>`);
+      }
+
+      const label = `${MONTHS[viewMonth.getMonth()]} ${viewMonth.getFullYear()}`;
+      element.innerHTML = `
+        <div class="rbc-toolbar">
+          <span class="rbc-btn-group">
+            <button type="button" data-navigate="today">Today</button>
+            <button type="button" data-navigate="back">Back</button>
+            <button type="button" data-navigate="next">Next</button>
+          </span>
+          <span class="rbc-toolbar-label">${label}</span>
+        </div>
+        <div class="rbc-month-view" role="table" aria-label="Month View">
+          <div class="rbc-row rbc-month-header" role="row">${DAY_HEADERS.map(day => `<div class="rbc-header"><span role="columnheader" aria-sort="none">${day}</span></div>`).join('')}</div>
+          ${weeks.join('')}
+        </div>`;
+    }
+
+    async function refresh() {
+      const { data } = await api('GET', reportPath);
+      events = (data.report || [])
+        .map(entry => ({ start: parseIsoDate(entry.start), end: parseIsoDate(entry.end), title: entry.title }))
+        .filter(event => event.start && event.end && event.start < event.end);
+      render();
+    }
+
+    element.addEventListener('click', event => {
+      const button = event.target.closest('[data-navigate]');
+      if (!button) {
+        return;
+      }
+      const action = button.dataset.navigate;
+      if (action === 'today') {
+        const today = new Date();
+        viewMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+      } else {
+        viewMonth = new Date(viewMonth.getFullYear(), viewMonth.getMonth() + (action === 'next' ? 1 : -1), 1);
+      }
+      render();
+    });
+
+    render();
+    refresh();
+    return { refresh };
+  }
+
+  window.Stub.createAvailabilityCalendar = createAvailabilityCalendar;
+})();
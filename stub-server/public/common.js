@@ -0,0 +1,131 @@
+/**
+ * Shared browser helpers for the stub server pages: date formatting, cookies,
+ * API calls and error rendering. Exposed on `window.Stub`.
+ * Also wires up the navigation bar's hamburger menu, which every guest page shows on narrow viewports.
+ */
+window.Stub = (function () {
+  const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+  const pad = value => String(value).padStart(2, '0');
+
+  function toIsoDate(date) {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  function parseIsoDate(value) {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+    if (!match) {
+      return null;
+    }
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return toIsoDate(date) === value ? date : null;
+  }
+
+  function formatDisplayDate(date) {
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+  }
+
+  function parseDisplayDate(value) {
+    const match = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec((value || '').trim());
+    return match ? parseIsoDate(`${match[3]}-${match[2]}-${match[1]}`) : null;
+  }
+
+  function addDays(date, days) {
+    const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  function startOfToday() {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+
+  function countNights(checkin, checkout) {
+    const start = parseIsoDate(checkin);
+    const end = parseIsoDate(checkout);
+    return start && end ? Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) : 0;
+  }
+
+  function describeDate(date) {
+    return `${WEEKDAYS[date.getDay()]}, ${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+  }
+
+  function escapeHtml(value) {
+    return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+  }
+
+  function getCookie(name) {
+    const match = document.cookie.split(';').find(cookie => cookie.trim().startsWith(`${name}=`));
+    return match ? decodeURIComponent(match.trim().slice(name.length + 1)) : undefined;
+  }
+
+  function setCookie(name, value) {
+    document.cookie = `${name}=${encodeURIComponent(value)}; path=/`;
+  }
+
+  function clearCookie(name) {
+    document.cookie = `${name}=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  }
+
+  async function api(method, path, body) {
+    const response = await fetch(`/api${path}`, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      credentials: 'same-origin',
+    });
+    let data = {};
+    try {
+      data = await response.json();
+    } catch (error) {
+      data = {};
+    }
+    return { status: response.status, ok: response.ok, data };
+  }
+
+  function errorsFrom(data) {
+    if (Array.isArray(data.errors)) {
+      return data.errors;
+    }
+    return [data.error || 'Something went wrong, please try again.'];
+  }
+
+  function renderErrors(container, errors, itemTag) {
+    if (errors.length === 0) {
+      container.innerHTML = '';
+      return;
+    }
+    const items = errors.map(error => `<${itemTag}>${escapeHtml(error)}</${itemTag}>`).join('');
+    container.innerHTML = `<div class="alert alert-danger" role="alert">${itemTag === 'li' ? `<ul>${items}</ul>` : items}</div>`;
+  }
+
+  return {
+    WEEKDAYS,
+    MONTHS,
+    toIsoDate,
+    parseIsoDate,
+    formatDisplayDate,
+    parseDisplayDate,
+    addDays,
+    startOfToday,
+    countNights,
+    describeDate,
+    escapeHtml,
+    getCookie,
+    setCookie,
+    clearCookie,
+    api,
+    errorsFrom,
+    renderErrors,
+  };
+})();
+
+document.querySelectorAll('.navbar-toggler').forEach(toggler => {
+  const menu = document.getElementById(toggler.getAttribute('aria-controls'));
+  toggler.addEventListener('click', () => {
+    const expanded = menu.classList.toggle('show');
+    toggler.setAttribute('aria-expanded', String(expanded));
+  });
+});
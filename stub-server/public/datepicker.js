@@ -0,0 +1,231 @@
+/**
+ * A small date picker that reproduces the markup and accessible names of react-datepicker,
+ * which the live site uses for the Check In and Check Out inputs. Dates are shown as
+ * dd/MM/yyyy, past days are disabled and typed values are accepted as well as clicks.
+ *
+ * The keyboard handling follows react-datepicker's input and day key handlers, so a keyboard-only journey
+ * meets the same behaviour as on the live site:
+ * - focusing the input opens the picker; with the picker closed, ArrowDown, ArrowUp or Enter reopen it;
+ * - with the picker open, ArrowDown or ArrowUp move focus to the keyboard-selected day
+ *   (`react-datepicker__day--keyboard-selected`, the only day with tabindex 0), and Enter closes it;
+ * - on a day, the arrow keys move the keyboard selection by a day or a week, Home and End to the start or end
+ *   of the week, PageUp and PageDown by a month, or a year with Shift;
+ * - Enter or Space chooses the day unless it is disabled, Escape closes the picker, and focus then returns to the
+ *   input without reopening the picker.
+ */
+(function () {
+  const { MONTHS, addDays, describeDate, formatDisplayDate, parseDisplayDate, startOfToday, toIsoDate } = window.Stub;
+  const DAY_NAMES = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+  function attachDatePicker(input, options = {}) {
+    let popup = null;
+    let viewMonth = null;
+    let preselected = null;
+    let returningFocus = false;
+
+    function selectedDate() {
+      return parseDisplayDate(input.value);
+    }
+
+    function close() {
+      if (!popup) {
+        return;
+      }
+      popup.remove();
+      popup = null;
+      document.removeEventListener('mousedown', onOutsideClick);
+    }
+
+    function onOutsideClick(event) {
+      if (popup && !popup.contains(event.target) && event.target !== input) {
+        close();
+      }
+    }
+
+    function select(date) {
+      input.value = formatDisplayDate(date);
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+      close();
+      if (options.onSelect) {
+        options.onSelect(date);
+      }
+    }
+
+    // Moves focus back to the input without reopening the picker
+    function returnFocusToInput() {
+      returningFocus = true;
+      input.focus();
+      returningFocus = false;
+    }
+
+    function focusPreselected() {
+      const day = popup && popup.querySelector('.react-datepicker__day--keyboard-selected');
+      if (day) {
+        day.focus();
+      }
+    }
+
+    function movePreselection(date) {
+      preselected = date;
+      viewMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+      render();
+      focusPreselected();
+    }
+
+    function addMonths(date, months) {
+      const daysInTargetMonth = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+      return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), daysInTargetMonth));
+    }
+
+    const DAY_KEY_OFFSETS = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 };
+
+    // Weeks start on Monday, as in the picker's day names
+    function weekdayIndex(date) {
+      return (date.getDay() + 6) % 7;
+    }
+
+    function onDayKeydown(event) {
+      if (!event.target.matches('[role="option"]')) {
+        return;
+      }
+      if (event.key in DAY_KEY_OFFSETS) {
+        movePreselection(addDays(preselected, DAY_KEY_OFFSETS[event.key]));
+      } else if (event.key === 'Home' || event.key === 'End') {
+        movePreselection(addDays(preselected, event.key === 'Home' ? -weekdayIndex(preselected) : 6 - weekdayIndex(preselected)));
+      } else if (event.key === 'PageUp' || event.key === 'PageDown') {
+        const months = event.shiftKey ? 12 : 1;
+        movePreselection(addMonths(preselected, event.key === 'PageUp' ? -months : months));
+      } else if (event.key === 'Enter' || event.key === ' ') {
+        if (preselected < startOfToday()) {
+          return;
+        }
+        select(preselected);
+        returnFocusToInput();
+      } else if (event.key === 'Escape') {
+        close();
+        returnFocusToInput();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    }
+
+    function renderDay(date, today, selected) {
+      const iso = toIsoDate(date);
+      const disabled = date < today;
+      const isSelected = selected && toIsoDate(selected) === iso;
+      const isPreselected = preselected && toIsoDate(preselected) === iso;
+      const classes = ['react-datepicker__day', `react-datepicker__day--${String(date.getDate()).padStart(3, '0')}`];
+      if (disabled) classes.push('react-datepicker__day--disabled');
+      if (isSelected) classes.push('react-datepicker__day--selected');
+      if (isPreselected) classes.push('react-datepicker__day--keyboard-selected');
+      if (iso === toIsoDate(today)) classes.push('react-datepicker__day--today');
+      const label = `${disabled ? 'Not available' : 'Choose'} ${describeDate(date)}`;
+      return `<div class="${classes.join(' ')}" role="option" tabindex="${isPreselected ? 0 : -1}" aria-label="${label}" aria-disabled="${disabled}" aria-selected="${Boolean(isSelected)}" data-date="${iso}">${date.getDate()}</div>`;
+    }
+
+    function render() {
+      const today = startOfToday();
+      const selected = selectedDate();
+      const firstOfMonth = new Date(viewMonth.getFullYear(), viewMonth.getMonth(), 1);
+      const leadingBlanks = (firstOfMonth.getDay() + 6) % 7;
+      const daysInMonth = new Date(viewMonth.getFullYear(), viewMonth.getMonth() + 1, 0).getDate();
+
+      const cells = [];
+      for (let i = 0; i < leadingBlanks; i++) {
+        cells.push('<div class="react-datepicker__day react-datepicker__day--outside-month" aria-hidden="true"></div>');
+      }
+      for (let day = 0; day < daysInMonth; day++) {
+        cells.push(renderDay(addDays(firstOfMonth, day), today, selected));
+      }
+      const weeks = [];
+      for (let i = 0; i < cells.length; i += 7) {
+        weeks.push(`<div class="react-datepicker__week">${cells.slice(i, i + 7).join('')}</div>`);
+      }
+
+      const monthLabel = `${MONTHS[viewMonth.getMonth()]} ${viewMonth.getFullYear()}`;
+      popup.innerHTML = `
+        <div class="react-datepicker" role="dialog" aria-label="Choose Date" aria-modal="true">
+          <button type="button" class="react-datepicker__navigation react-datepicker__navigation--previous" aria-label="Previous Month">&lsaquo;</button>
+          <button type="button" class="react-datepicker__navigation react-datepicker__navigation--next" aria-label="Next Month">&rsaquo;</button>
+          <div class="react-datepicker__month-container">
+            <h2 class="react-datepicker__current-month">${monthLabel}</h2>
+            <div class="react-datepicker__day-names">${DAY_NAMES.map(name => `<div class="react-datepicker__day-name">${name}</div>`).join('')}</div>
+            <div class="react-datepicker__month" role="listbox" aria-label="month ${toIsoDate(firstOfMonth).slice(0, 7)}">${weeks.join('')}</div>
+          </div>
+        </div>`;
+    }
+
+    function changeMonth(offset) {
+      viewMonth = new Date(viewMonth.getFullYear(), viewMonth.getMonth() + offset, 1);
+      render();
+    }
+
+    function open() {
+      if (popup) {
+        return;
+      }
+      const initial = selectedDate() || startOfToday();
+      viewMonth = new Date(initial.getFullYear(), initial.getMonth(), 1);
+      preselected = initial;
+      popup = document.createElement('div');
+      popup.className = 'react-datepicker-popper';
+      const bounds = input.getBoundingClientRect();
+      popup.style.top = `${bounds.bottom + window.scrollY + 4}px`;
+      popup.style.left = `${bounds.left + window.scrollX}px`;
+      popup.addEventListener('click', event => {
+        const target = event.target.closest('button, [role="option"]');
+        if (!target) {
+          return;
+        }
+        if (target.classList.contains('react-datepicker__navigation--previous')) {
+          changeMonth(-1);
+        } else if (target.classList.contains('react-datepicker__navigation--next')) {
+          changeMonth(1);
+        } else if (target.getAttribute('aria-disabled') === 'false') {
+          select(window.Stub.parseIsoDate(target.dataset.date));
+        }
+      });
+      popup.addEventListener('keydown', onDayKeydown);
+      document.body.appendChild(popup);
+      render();
+      document.addEventListener('mousedown', onOutsideClick);
+    }
+
+    input.addEventListener('click', open);
+    input.addEventListener('focus', () => {
+      if (!returningFocus) {
+        open();
+      }
+    });
+    input.addEventListener('keydown', event => {
+      const opensPicker = event.key === 'ArrowDown' || event.key === 'ArrowUp' || event.key === 'Enter';
+      if (!popup) {
+        if (opensPicker) {
+          open();
+          event.preventDefault();
+        }
+      } else if (event.key === 'Escape' || event.key === 'Tab') {
+        close();
+      } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        focusPreselected();
+        event.preventDefault();
+      } else if (event.key === 'Enter') {
+        close();
+        event.preventDefault();
+      }
+    });
+    input.addEventListener('input', () => {
+      const typed = selectedDate();
+      if (popup && typed) {
+        viewMonth = new Date(typed.getFullYear(), typed.getMonth(), 1);
+        preselected = typed;
+        render();
+      }
+    });
+
+    return { open, close };
+  }
+
+  window.Stub.attachDatePicker = attachDatePicker;
+})();
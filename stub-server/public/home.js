@@ -0,0 +1,120 @@
+/**
+ * Behaviour for the stub home page: date selection, room availability search,
+ * room cards and the contact form.
+ */
+(function () {
+  const {
+    addDays,
+    api,
+    attachDatePicker,
+    errorsFrom,
+    escapeHtml,
+    formatDisplayDate,
+    parseDisplayDate,
+    renderErrors,
+    startOfToday,
+    toIsoDate,
+  } = window.Stub;
+
+  const checkinInput = document.getElementById('checkin');
+  const checkoutInput = document.getElementById('checkout');
+  const roomList = document.getElementById('roomList');
+  let renderedRoomsKey = '';
+
+  checkinInput.value = formatDisplayDate(startOfToday());
+  checkoutInput.value = formatDisplayDate(addDays(startOfToday(), 1));
+
+  function selectedDates() {
+    const checkin = parseDisplayDate(checkinInput.value);
+    const checkout = parseDisplayDate(checkoutInput.value);
+    return { checkin: checkin && toIsoDate(checkin), checkout: checkout && toIsoDate(checkout) };
+  }
+
+  function reservationUrl(roomId) {
+    const { checkin, checkout } = selectedDates();
+    const query = checkin && checkout ? `?checkin=${checkin}&checkout=${checkout}` : '';
+    return `/reservation/${roomId}${query}`;
+  }
+
+  function updateBookingLinks() {
+    roomList.querySelectorAll('[data-room-id]').forEach(card => {
+      card.querySelector('.btn.btn-primary').setAttribute('href', reservationUrl(card.dataset.roomId));
+    });
+  }
+
+  function renderRooms(rooms) {
+    const key = rooms.map(room => `${room.roomid}:${room.roomPrice}:${room.type}`).join('|');
+    if (key === renderedRoomsKey) {
+      updateBookingLinks();
+      return;
+    }
+    renderedRoomsKey = key;
+
+    if (rooms.length === 0) {
+      roomList.innerHTML = '<p class="no-rooms">No rooms are available for the selected dates.</p>';
+      return;
+    }
+    roomList.innerHTML = rooms
+      .map(
+        room => `
+        <div class="col-md-6 col-lg-4">
+          <div class="card h-100 shadow-sm room-card" data-room-id="${room.roomid}">
+            <img class="card-img-top" src="${escapeHtml(room.image)}" alt="${escapeHtml(room.type)} room" />
+            <div class="card-body">
+              <h5 class="card-title">${escapeHtml(room.type)}</h5>
+              <p class="card-text">${escapeHtml(room.description)}</p>
+              <div class="room-features">${room.features.map(feature => `<span class="badge">${escapeHtml(feature)}</span>`).join('')}</div>
+            </div>
+            <div class="card-footer">
+              <div class="fw-bold fs-5">£${room.roomPrice}<small class="text-muted"> per night</small></div>
+              <a class="btn btn-primary" href="${reservationUrl(room.roomid)}">Book now</a>
+            </div>
+          </div>
+        </div>`
+      )
+      .join('');
+  }
+
+  async function loadRooms() {
+    const { checkin, checkout } = selectedDates();
+    const query = checkin && checkout ? `?checkin=${checkin}&checkout=${checkout}` : '';
+    const { data } = await api('GET', `/room${query}`);
+    renderRooms(data.rooms || []);
+  }
+
+  attachDatePicker(checkinInput);
+  attachDatePicker(checkoutInput);
+  checkinInput.addEventListener('change', updateBookingLinks);
+  checkoutInput.addEventListener('change', updateBookingLinks);
+
+  document.getElementById('availabilityForm').addEventListener('submit', event => {
+    event.preventDefault();
+    loadRooms();
+  });
+
+  const contactCard = document.getElementById('contactCard');
+  const contactErrors = document.getElementById('contactErrors');
+
+  document.getElementById('contactForm').addEventListener('submit', async event => {
+    event.preventDefault();
+    const enquiry = {
+      name: document.getElementById('name').value,
+      email: document.getElementById('email').value,
+      phone: document.getElementById('phone').value,
+      subject: document.getElementById('subject').value,
+      description: document.getElementById('description').value,
+    };
+    const { ok, data } = await api('POST', '/message', enquiry);
+    if (!ok) {
+      renderErrors(contactErrors, errorsFrom(data), 'p');
+      return;
+    }
+    contactCard.innerHTML = `
+      <h3 class="h4 mb-4">Thanks for getting in touch ${escapeHtml(enquiry.name)}!</h3>
+      <p>We'll get back to you about</p>
+      <p class="fw-bold">${escapeHtml(enquiry.subject)}</p>
+      <p>as soon as possible.</p>`;
+  });
+
+  loadRooms();
+})();
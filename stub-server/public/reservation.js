@@ -0,0 +1,130 @@
+/**
+ * Behaviour for the stub reservation page: room details, price summary, availability
+ * calendar, the guest details form and the booking confirmation.
+ */
+(function () {
+  const { addDays, api, countNights, errorsFrom, escapeHtml, parseIsoDate, renderErrors, startOfToday, toIsoDate } = window.Stub;
+
+  const container = document.getElementById('reservation');
+  const roomId = Number(container.dataset.roomId);
+  const cleaningFee = Number(container.dataset.cleaningFee);
+  const serviceFee = Number(container.dataset.serviceFee);
+  const bookingPanel = document.getElementById('bookingPanel');
+
+  const params = new URLSearchParams(window.location.search);
+  const checkin = parseIsoDate(params.get('checkin')) ? params.get('checkin') : toIsoDate(startOfToday());
+  const checkout = parseIsoDate(params.get('checkout')) ? params.get('checkout') : toIsoDate(addDays(parseIsoDate(checkin), 1));
+  const nights = countNights(checkin, checkout);
+
+  let room = null;
+  let calendar = null;
+
+  function priceSummary() {
+    const roomTotal = room.roomPrice * nights;
+    return `
+      <div class="card bg-light border-0 mb-4">
+        <div class="card-body">
+          <h3 class="fs-5 mb-3">Price Summary</h3>
+          <p class="stay-dates">Check-in: <span id="checkInDisplay">${checkin}</span> &middot; Check-out: <span id="checkOutDisplay">${checkout}</span></p>
+          <div class="d-flex justify-content-between mb-2"><span>£${room.roomPrice} x ${nights} nights</span><span>£${roomTotal}</span></div>
+          <div class="d-flex justify-content-between mb-2"><span>Cleaning fee</span><span>£${cleaningFee}</span></div>
+          <div class="d-flex justify-content-between mb-2"><span>Service fee</span><span>£${serviceFee}</span></div>
+          <hr />
+          <div class="d-flex justify-content-between fw-bold"><span>Total</span><span>£${roomTotal + cleaningFee + serviceFee}</span></div>
+        </div>
+      </div>`;
+  }
+
+  function renderSummary() {
+    bookingPanel.innerHTML = `${priceSummary()}<button type="button" class="btn btn-primary w-100 mb-3" id="doReservation">Reserve Now</button>`;
+    document.getElementById('doReservation').addEventListener('click', renderGuestForm);
+  }
+
+  function renderGuestForm() {
+    bookingPanel.innerHTML = `
+      ${priceSummary()}
+      <div id="bookingErrors"></div>
+      <!-- The app leaves validation to the booking API, so the browser must not block a malformed email -->
+      <form id="guestForm" novalidate>
+        <input type="text" class="form-control room-firstname" name="firstname" placeholder="Firstname" aria-label="Firstname" />
+        <input type="text" class="form-control room-lastname" name="lastname" placeholder="Lastname" aria-label="Lastname" />
+        <input type="email" class="form-control room-email" name="email" placeholder="Email" aria-label="Email" />
+        <input type="tel" class="form-control room-phone" name="phone" placeholder="Phone" aria-label="Phone" />
+        <button type="submit" class="btn btn-primary w-100 mb-3">Reserve Now</button>
+        <button type="button" class="btn btn-secondary w-100 mb-3" id="cancelReservation">Cancel</button>
+      </form>`;
+    document.getElementById('cancelReservation').addEventListener('click', renderSummary);
+    document.getElementById('guestForm').addEventListener('submit', submitBooking);
+  }
+
+  async function submitBooking(event) {
+    event.preventDefault();
+    const form = event.target;
+    const payload = {
+      roomid: roomId,
+      firstname: form.firstname.value,
+      lastname: form.lastname.value,
+      email: form.email.value,
+      phone: form.phone.value,
+      depositpaid: false,
+      bookingdates: { checkin, checkout },
+    };
+    const { ok, data } = await api('POST', '/booking', payload);
+    if (!ok) {
+      renderErrors(document.getElementById('bookingErrors'), errorsFrom(data), 'li');
+      return;
+    }
+    bookingPanel.innerHTML = `
+      <div class="card-body text-center">
+        <h2 class="card-title fs-4 fw-bold mb-3">Booking Confirmed</h2>
+        <p>Your booking has been confirmed for the following dates:</p>
+        <p class="text-center pt-2"><strong>${checkin} - ${checkout}</strong></p>
+        <a class="btn btn-primary w-100" href="/">Return home</a>
+      </div>`;
+    calendar.refresh();
+  }
+
+  async function renderSimilarRooms() {
+    const { data } = await api('GET', '/room');
+    const others = (data.rooms || []).filter(other => other.roomid !== roomId);
+    document.getElementById('similarRooms').innerHTML = others
+      .map(
+        other => `
+        <div class="col-md-4">
+          <div class="card similar-room">
+            <div class="card-body">
+              <h3 class="fs-5">${escapeHtml(other.type)} Room</h3>
+              <p>£${other.roomPrice} per night</p>
+              <a class="btn btn-outline-primary" href="/reservation/${other.roomid}?checkin=${checkin}&checkout=${checkout}">View Room</a>
+            </div>
+          </div>
+        </div>`
+      )
+      .join('');
+  }
+
+  async function load() {
+    const { ok, data } = await api('GET', `/room/${roomId}`);
+    if (!ok) {
+      document.getElementById('roomTitle').textContent = 'Room not found';
+      return;
+    }
+    room = data;
+    const title = `${room.type} Room`;
+    document.getElementById('roomTitle').textContent = title;
+    document.getElementById('breadcrumbRoomType').textContent = title;
+    document.getElementById('roomDescription').textContent = room.description;
+    document.getElementById('roomFeatures').innerHTML = room.features.map(feature => `<li>${escapeHtml(feature)}</li>`).join('');
+    document.getElementById('roomPrice').textContent = `£${room.roomPrice}`;
+
+    calendar = window.Stub.createAvailabilityCalendar(document.getElementById('availabilityCalendar'), {
+      roomId,
+      initialDate: parseIsoDate(checkin),
+      selection: { checkin, checkout },
+    });
+    renderSummary();
+    renderSimilarRooms();
+  }
+
+  load();
+})();
@@ -0,0 +1,142 @@
+/**
+ * @file This file starts the local stub server for the Shady Meadows B&B application.
+ * It serves the guest and admin pages, the browser scripts under `stub-server/public`
+ * and the JSON API under `/api`, all from in-memory state seeded on start-up.
+ *
+ * Playwright starts it through the `webServer` option in `playwright.config.ts` whenever
+ * `BASE_URL` is not set, so the whole suite can run offline with deterministic data.
+ * It can also be started by hand with `npm run stub:start`.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { readFile } from 'fs/promises';
+import { join, normalize } from 'path';
+import { STUB_SERVER_PORT, STUB_TOKEN_TTL_HEADER } from '../tests/common/utils/constants';
+import { handleApiRequest } from './api';
+import { seedStore } from './store';
+import {
+  renderAdminBrandingPage,
+  renderAdminLoginPage,
+  renderAdminMessagesPage,
+  renderAdminReportPage,
+  renderAdminRoomEditorPage,
+  renderAdminRoomsPage,
+  renderHomePage,
+  renderReservationPage,
+} from './views';
+
+const PUBLIC_DIR = join(__dirname, 'public');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'application/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.svg': 'image/svg+xml',
+};
+
+const pages: { pattern: RegExp; render: (params: string[]) => string }[] = [
+  { pattern: /^\/$/, render: () => renderHomePage() },
+  { pattern: /^\/reservation\/(\d+)$/, render: ([roomId]) => renderReservationPage(Number(roomId)) },
+  { pattern: /^\/admin$/, render: () => renderAdminLoginPage() },
+  { pattern: /^\/admin\/rooms$/, render: () => renderAdminRoomsPage() },
+  { pattern: /^\/admin\/room\/(\d+)$/, render: ([roomId]) => renderAdminRoomEditorPage(Number(roomId)) },
+  { pattern: /^\/admin\/report$/, render: () => renderAdminReportPage() },
+  { pattern: /^\/admin\/message$/, render: () => renderAdminMessagesPage() },
+  { pattern: /^\/admin\/branding$/, render: () => renderAdminBrandingPage() },
+];
+
+function readCookie(request: IncomingMessage, name: string): string | undefined {
+  const cookies = request.headers.cookie?.split(';') ?? [];
+  const match = cookies.map(cookie => cookie.trim().split('=')).find(([key]) => key === name);
+  return match ? decodeURIComponent(match.slice(1).join('=')) : undefined;
+}
+
+/**
+ * Reads the token lifetime a test asked for through `STUB_TOKEN_TTL_HEADER`, ignoring a missing or non-positive value.
+ */
+function readTokenTtl(request: IncomingMessage): number | undefined {
+  const ttlMs = Number(request.headers[STUB_TOKEN_TTL_HEADER.toLowerCase()]);
+  return Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : undefined;
+}
+
+async function readBody(request: IncomingMessage): Promise<{ body: unknown; malformedBody: boolean }> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (raw.trim().length === 0) {
+    return { body: undefined, malformedBody: false };
+  }
+  try {
+    return { body: JSON.parse(raw), malformedBody: false };
+  } catch {
+    return { body: undefined, malformedBody: true };
+  }
+}
+
+function send(response: ServerResponse, status: number, contentType: string, payload: string | Buffer): void {
+  response.writeHead(status, { 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+  response.end(payload);
+}
+
+async function serveAsset(response: ServerResponse, fileName: string): Promise<void> {
+  const filePath = normalize(join(PUBLIC_DIR, fileName));
+  const extension = filePath.slice(filePath.lastIndexOf('.'));
+  if (!filePath.startsWith(PUBLIC_DIR) || !CONTENT_TYPES[extension]) {
+    send(response, 404, 'text/plain', 'Not found');
+    return;
+  }
+  try {
+    send(response, 200, CONTENT_TYPES[extension], await readFile(filePath));
+  } catch {
+    send(response, 404, 'text/plain', 'Not found');
+  }
+}
+
+async function handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+  const pathname = url.pathname;
+
+  if (pathname.startsWith('/api/')) {
+    const { body, malformedBody } = await readBody(request);
+    const result = handleApiRequest(pathname, {
+      method: request.method ?? 'GET',
+      query: url.searchParams,
+      body,
+      malformedBody,
+      token: readCookie(request, 'token'),
+      tokenTtlMs: readTokenTtl(request),
+    });
+    const { status, body: payload } = result ?? { status: 404, body: { error: 'Not found' } };
+    send(response, status, 'application/json', JSON.stringify(payload ?? {}));
+    return;
+  }
+
+  if (pathname.startsWith('/assets/')) {
+    await serveAsset(response, pathname.slice('/assets/'.length));
+    return;
+  }
+
+  const normalisedPath = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  for (const page of pages) {
+    const match = normalisedPath.match(page.pattern);
+    if (match) {
+      send(response, 200, 'text/html; charset=utf-8', page.render(match.slice(1)));
+      return;
+    }
+  }
+  send(response, 404, 'text/plain', 'Not found');
+}
+
+seedStore();
+
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    console.error(`Stub server failed to handle ${request.method} ${request.url}:`, error);
+    send(response, 500, 'application/json', JSON.stringify({ error: 'Internal server error' }));
+  });
+});
+
+server.listen(STUB_SERVER_PORT, () => {
+  console.log(`Shady Meadows stub server listening on http://localhost:${STUB_SERVER_PORT}`);
+});
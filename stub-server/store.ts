@@ -0,0 +1,322 @@
+/**
+ * @file This file holds the in-memory state of the local stub server: rooms, bookings, messages,
+ * branding and admin sessions. Every server start begins from the same seed data, which keeps
+ * test runs deterministic. It also contains the validation rules that mirror the messages
+ * returned by the live Shady Meadows API.
+ */
+
+import { randomBytes } from 'crypto';
+
+export const STUB_ADMIN_USERNAME = 'admin';
+
+export const STUB_ADMIN_PASSWORD = 'password';
+
+export const STUB_CLEANING_FEE = 25;
+
+export const STUB_SERVICE_FEE = 15;
+
+export const ROOM_TYPES = ['Single', 'Twin', 'Double', 'Family', 'Suite'];
+
+const TOKEN_TTL_MS: number = Number(process.env.STUB_TOKEN_TTL_MS || 60 * 60 * 1000);
+
+export const BOOKING_CONFLICT_ERROR =
+  'The room dates are either invalid or are already booked for one or more of the dates that you have selected.';
+
+export interface StubRoom {
+  roomid: number;
+  roomName: string;
+  type: string;
+  accessible: boolean;
+  image: string;
+  description: string;
+  features: string[];
+  roomPrice: number;
+}
+
+export interface StubBooking {
+  bookingid: number;
+  roomid: number;
+  firstname: string;
+  lastname: string;
+  email: string;
+  phone: string;
+  depositpaid: boolean;
+  totalprice: number;
+  bookingdates: { checkin: string; checkout: string };
+}
+
+export interface StubMessage {
+  messageid: number;
+  name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  description: string;
+  read: boolean;
+}
+
+export interface StubBranding {
+  name: string;
+  description: string;
+  address: string;
+  phone: string;
+  email: string;
+}
+
+/**
+ * A booking request body once `validateBooking` has accepted it. The room ID is resolved separately,
+ * as the API answers an unknown room with 404 rather than a validation error.
+ */
+export type BookingPayload = Pick<StubBooking, 'firstname' | 'lastname' | 'email' | 'phone' | 'bookingdates'> & {
+  roomid?: unknown;
+  depositpaid?: unknown;
+};
+
+/**
+ * A room request body once `validateRoom` has accepted it.
+ */
+export type RoomPayload = Pick<StubRoom, 'roomName' | 'type' | 'roomPrice'> &
+  Partial<Pick<StubRoom, 'image' | 'description' | 'features'>> & { accessible?: unknown };
+
+/**
+ * A message request body once `validateMessage` has accepted it.
+ */
+export type MessagePayload = Omit<StubMessage, 'messageid' | 'read'>;
+
+const SEED_ROOMS: Omit<StubRoom, 'roomid'>[] = [
+  {
+    roomName: '101',
+    type: 'Single',
+    accessible: true,
+    image: '/assets/room.svg',
+    description: 'A cosy single room with a garden view, ideal for solo travellers.',
+    features: ['TV', 'WiFi', 'Safe'],
+    roomPrice: 100,
+  },
+  {
+    roomName: '102',
+    type: 'Double',
+    accessible: true,
+    image: '/assets/room.svg',
+    description: 'A bright double room with space to relax after a day in the meadows.',
+    features: ['TV', 'Radio', 'WiFi'],
+    roomPrice: 150,
+  },
+  {
+    roomName: '103',
+    type: 'Suite',
+    accessible: false,
+    image: '/assets/room.svg',
+    description: 'Our largest suite, with a separate lounge and views across the valley.',
+    features: ['TV', 'Radio', 'WiFi', 'Safe', 'Views', 'Refreshments'],
+    roomPrice: 225,
+  },
+];
+
+const SEED_MESSAGES: Omit<StubMessage, 'messageid'>[] = [
+  {
+    name: 'James Dean',
+    email: 'james@example.com',
+    phone: '01402619211',
+    subject: 'Booking enquiry',
+    description: 'I would like to book a room at your place for a week in the summer.',
+    read: false,
+  },
+];
+
+const SEED_BRANDING: StubBranding = {
+  name: 'Shady Meadows B&B',
+  description: 'Welcome to Shady Meadows, a delightful Bed & Breakfast nestled in the hills.',
+  address: 'The Old Farmhouse, Shady Street, Newingtonfordburyshire, NE1 410S',
+  phone: '012345678901',
+  email: 'fake@fakeemail.com',
+};
+
+export const rooms = new Map<number, StubRoom>();
+export const bookings = new Map<number, StubBooking>();
+export const messages = new Map<number, StubMessage>();
+export const branding: StubBranding = { ...SEED_BRANDING };
+const sessions = new Map<string, number>();
+
+const nextIds = { room: 1, booking: 1, message: 1 };
+
+/**
+ * Resets every collection to the seed data. Called once when the server starts.
+ */
+export function seedStore(): void {
+  rooms.clear();
+  bookings.clear();
+  messages.clear();
+  sessions.clear();
+  Object.assign(branding, SEED_BRANDING);
+  nextIds.room = 1;
+  nextIds.booking = 1;
+  nextIds.message = 1;
+
+  SEED_ROOMS.forEach(room => addRoom(room));
+  SEED_MESSAGES.forEach(message => addMessage(message));
+}
+
+export function addRoom(room: Omit<StubRoom, 'roomid'>): StubRoom {
+  const created: StubRoom = { ...room, roomid: nextIds.room++ };
+  rooms.set(created.roomid, created);
+  return created;
+}
+
+export function addBooking(booking: Omit<StubBooking, 'bookingid'>): StubBooking {
+  const created: StubBooking = { ...booking, bookingid: nextIds.booking++ };
+  bookings.set(created.bookingid, created);
+  return created;
+}
+
+export function addMessage(message: Omit<StubMessage, 'messageid'>): StubMessage {
+  const created: StubMessage = { ...message, messageid: nextIds.message++ };
+  messages.set(created.messageid, created);
+  return created;
+}
+
+/**
+ * Issues a new admin session token that expires after `STUB_TOKEN_TTL_MS`, or sooner if a shorter lifetime is requested.
+ */
+export function createSession(ttlMs: number = TOKEN_TTL_MS): string {
+  const token = randomBytes(8).toString('hex');
+  sessions.set(token, Date.now() + Math.min(ttlMs, TOKEN_TTL_MS));
+  return token;
+}
+
+export function isValidSession(token: string | undefined): boolean {
+  if (!token) {
+    return false;
+  }
+  const expiresAt = sessions.get(token);
+  if (expiresAt === undefined) {
+    return false;
+  }
+  if (expiresAt < Date.now()) {
+    sessions.delete(token);
+    return false;
+  }
+  return true;
+}
+
+export function endSession(token: string | undefined): void {
+  if (token) {
+    sessions.delete(token);
+  }
+}
+
+/**
+ * Counts the nights between two ISO dates, or returns 0 if either date is invalid.
+ */
+export function countNights(checkin: string, checkout: string): number {
+  const start = Date.parse(`${checkin}T00:00:00Z`);
+  const end = Date.parse(`${checkout}T00:00:00Z`);
+  if (isNaN(start) || isNaN(end)) {
+    return 0;
+  }
+  return Math.round((end - start) / (24 * 60 * 60 * 1000));
+}
+
+export function calculateTotalPrice(room: StubRoom, checkin: string, checkout: string): number {
+  return room.roomPrice * countNights(checkin, checkout) + STUB_CLEANING_FEE + STUB_SERVICE_FEE;
+}
+
+/**
+ * Returns the bookings for a room whose stay overlaps the given dates. Stays are treated as
+ * half-open ranges, so a check-out on the same day as another check-in is not a conflict.
+ */
+export function findOverlappingBookings(roomid: number, checkin: string, checkout: string, ignoreBookingId?: number): StubBooking[] {
+  return [...bookings.values()].filter(
+    booking =>
+      booking.roomid === roomid &&
+      booking.bookingid !== ignoreBookingId &&
+      booking.bookingdates.checkin < checkout &&
+      checkin < booking.bookingdates.checkout
+  );
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+
+/**
+ * Reads a parsed JSON body as an object of unknown fields, treating anything else (a missing body,
+ * an array or a primitive) as an empty object so every field fails validation as missing.
+ */
+export function asRecord(body: unknown): Record<string, unknown> {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+}
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim().length === 0;
+const isEmpty = (value: unknown) => typeof value !== 'string' || value.length === 0;
+const lengthOutside = (value: unknown, min: number, max: number) => typeof value !== 'string' || value.length < min || value.length > max;
+
+/**
+ * Validates a booking request body. An empty list means the body is a valid `BookingPayload`.
+ */
+export function validateBooking(body: unknown): string[] {
+  const payload = asRecord(body);
+  const errors: string[] = [];
+  if (isBlank(payload.firstname)) errors.push('Firstname should not be blank');
+  if (lengthOutside(payload.firstname, 3, 18)) errors.push('size must be between 3 and 18');
+  if (isBlank(payload.lastname)) errors.push('Lastname should not be blank');
+  if (lengthOutside(payload.lastname, 3, 30)) errors.push('size must be between 3 and 30');
+  if (typeof payload.email !== 'string' || isEmpty(payload.email)) errors.push('must not be empty');
+  else if (!EMAIL.test(payload.email)) errors.push('must be a well-formed email address');
+  if (isEmpty(payload.phone)) errors.push('must not be empty');
+  if (lengthOutside(payload.phone, 11, 21)) errors.push('size must be between 11 and 21');
+
+  const { checkin, checkout } = asRecord(payload.bookingdates);
+  if (typeof checkin !== 'string' || typeof checkout !== 'string' || !ISO_DATE.test(checkin) || !ISO_DATE.test(checkout)) {
+    errors.push('Booking dates must be provided in YYYY-MM-DD format');
+  } else if (countNights(checkin, checkout) <= 0) {
+    errors.push('Check-out date must be after check-in date');
+  }
+  return errors;
+}
+
+/**
+ * Validates a room request body. An empty list means the body is a valid `RoomPayload`.
+ */
+export function validateRoom(body: unknown): string[] {
+  const payload = asRecord(body);
+  const errors: string[] = [];
+  if (isBlank(payload.roomName)) errors.push('Room name must be set');
+  if (typeof payload.type !== 'string' || !ROOM_TYPES.includes(payload.type)) {
+    errors.push('Type can only contain the room options Single, Double, Twin, Family or Suite');
+  }
+  if (typeof payload.roomPrice !== 'number' || payload.roomPrice < 1) errors.push('must be greater than or equal to 1');
+  else if (payload.roomPrice > 999) errors.push('must be less than or equal to 999');
+  if (payload.features !== undefined && !Array.isArray(payload.features)) errors.push('Features must be a list');
+  return errors;
+}
+
+/**
+ * Validates the branding as it would be after an update, with the request body merged over the current branding.
+ */
+export function validateBranding(body: unknown): string[] {
+  const payload = asRecord(body);
+  const errors: string[] = [];
+  if (isBlank(payload.name)) errors.push('Name should not be blank');
+  if (typeof payload.email === 'string' && !isBlank(payload.email) && !EMAIL.test(payload.email)) {
+    errors.push('must be a well-formed email address');
+  }
+  return errors;
+}
+
+/**
+ * Validates a contact message request body. An empty list means the body is a valid `MessagePayload`.
+ */
+export function validateMessage(body: unknown): string[] {
+  const payload = asRecord(body);
+  const errors: string[] = [];
+  if (isBlank(payload.name)) errors.push('Name may not be blank');
+  if (typeof payload.email !== 'string' || isBlank(payload.email)) errors.push('Email may not be blank');
+  else if (!EMAIL.test(payload.email)) errors.push('must be a well-formed email address');
+  if (isBlank(payload.phone)) errors.push('Phone may not be blank');
+  if (lengthOutside(payload.phone, 11, 21)) errors.push('Phone must be between 11 and 21 characters.');
+  if (isBlank(payload.subject)) errors.push('Subject may not be blank');
+  if (lengthOutside(payload.subject, 5, 100)) errors.push('Subject must be between 5 and 100 characters.');
+  if (isBlank(payload.description)) errors.push('Message may not be blank');
+  if (lengthOutside(payload.description, 20, 2000)) errors.push('Message must be between 20 and 2000 characters.');
+  return errors;
+}
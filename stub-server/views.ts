@@ -0,0 +1,338 @@
+/**
+ * @file This file renders the HTML pages served by the local stub server. The markup reproduces
+ * the structure, roles and class names that the page objects in `tests/common/pages` locate,
+ * while the behaviour lives in the browser scripts under `stub-server/public`.
+ */
+
+import { ROOM_FEATURES } from '../tests/common/utils/constants';
+import { STUB_CLEANING_FEE, STUB_SERVICE_FEE, branding } from './store';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+function navigationBar(): string {
+  return `
+  <nav class="navbar navbar-expand-lg navbar-light bg-white shadow-sm">
+    <div class="container">
+      <a class="navbar-brand" href="/">${escapeHtml(branding.name)}</a>
+      <button class="navbar-toggler" type="button" aria-controls="navbarNav" aria-expanded="false" aria-label="Toggle navigation">
+        <span class="navbar-toggler-icon"></span>
+      </button>
+      <div class="collapse navbar-collapse" id="navbarNav">
+        <ul class="navbar-nav">
+          <li class="nav-item"><a class="nav-link" href="/#rooms">Rooms</a></li>
+          <li class="nav-item"><a class="nav-link" href="/#booking">Booking</a></li>
+          <li class="nav-item"><a class="nav-link" href="/#amenities">Amenities</a></li>
+          <li class="nav-item"><a class="nav-link" href="/#location">Location</a></li>
+          <li class="nav-item"><a class="nav-link" href="/#contact">Contact</a></li>
+          <li class="nav-item"><a class="nav-link" href="/admin">Admin</a></li>
+        </ul>
+      </div>
+    </div>
+  </nav>`;
+}
+
+function footer(): string {
+  return `
+  <footer class="bg-dark text-white py-5">
+    <div class="container">
+      <h5>${escapeHtml(branding.name)}</h5>
+      <p>${escapeHtml(branding.address)}</p>
+      <p>${escapeHtml(branding.phone)} &middot; ${escapeHtml(branding.email)}</p>
+    </div>
+  </footer>`;
+}
+
+function layout(title: string, body: string, scripts: string[]): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <link rel="stylesheet" href="/assets/styles.css" />
+  </head>
+  <body>
+    ${body}
+    ${scripts.map(script => `<script src="/assets/${script}"></script>`).join('\n    ')}
+  </body>
+</html>`;
+}
+
+export function renderHomePage(): string {
+  const body = `${navigationBar()}
+  <section class="hero">
+    <div class="container">
+      <h1>Welcome to ${escapeHtml(branding.name)}</h1>
+      <p class="lead">${escapeHtml(branding.description)}</p>
+      <a class="btn btn-primary btn-lg" href="#booking">Book Now</a>
+    </div>
+  </section>
+
+  <section id="booking" class="section">
+    <div class="card shadow booking-search">
+      <div class="card-body">
+        <h3 class="card-title">Check Availability &amp; Book Your Stay</h3>
+        <form id="availabilityForm" class="row">
+          <!-- React renders no whitespace between the label and the date picker, so the field's text is exactly its label -->
+          <div class="col-md-5"><label class="form-label">Check In</label><div class="react-datepicker-wrapper"><input type="text" class="form-control" id="checkin" autocomplete="off" /></div></div>
+          <div class="col-md-5"><label class="form-label">Check Out</label><div class="react-datepicker-wrapper"><input type="text" class="form-control" id="checkout" autocomplete="off" /></div></div>
+          <div class="col-md-2">
+            <button type="submit" class="btn btn-primary w-100">Check Availability</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  </section>
+
+  <section id="rooms" class="section">
+    <h2>Our Rooms</h2>
+    <p>Comfortable rooms for every kind of stay.</p>
+    <div class="row" id="roomList"></div>
+  </section>
+
+  <section id="location" class="section">
+    <h2>Our Location</h2>
+    <div class="card">
+      <div class="card-body">
+        <h3 class="h4 mb-4">Contact Information</h3>
+        <p>${escapeHtml(branding.address)}</p>
+        <p>${escapeHtml(branding.phone)}</p>
+        <p>${escapeHtml(branding.email)}</p>
+      </div>
+    </div>
+  </section>
+
+  <section id="contact" class="section">
+    <div class="card shadow">
+      <div class="card-body" id="contactCard">
+        <h3 class="card-title">Send Us a Message</h3>
+        <div id="contactErrors"></div>
+        <!-- The app leaves validation to the message API, so the browser must not block a malformed email -->
+        <form id="contactForm" novalidate>
+          <label class="form-label" for="name">Name</label>
+          <input type="text" class="form-control" id="name" data-testid="ContactName" />
+          <label class="form-label" for="email">Email</label>
+          <input type="email" class="form-control" id="email" data-testid="ContactEmail" />
+          <label class="form-label" for="phone">Phone</label>
+          <input type="tel" class="form-control" id="phone" data-testid="ContactPhone" />
+          <label class="form-label" for="subject">Subject</label>
+          <input type="text" class="form-control" id="subject" data-testid="ContactSubject" />
+          <label class="form-label" for="description">Message</label>
+          <textarea class="form-control" id="description" rows="5" data-testid="ContactDescription"></textarea>
+          <button type="submit" class="btn btn-primary">Submit</button>
+        </form>
+      </div>
+    </div>
+  </section>
+  ${footer()}`;
+
+  return layout(branding.name, body, ['common.js', 'datepicker.js', 'home.js']);
+}
+
+export function renderReservationPage(roomId: number): string {
+  const body = `${navigationBar()}
+  <div class="container" id="reservation" data-room-id="${roomId}" data-cleaning-fee="${STUB_CLEANING_FEE}" data-service-fee="${STUB_SERVICE_FEE}">
+    <nav aria-label="breadcrumb">
+      <ol class="breadcrumb">
+        <li class="breadcrumb-item"><a href="/">Home</a></li>
+        <li class="breadcrumb-item"><a href="/#rooms">Rooms</a></li>
+        <li class="breadcrumb-item active" aria-current="page" id="breadcrumbRoomType"></li>
+      </ol>
+    </nav>
+    <div class="row">
+      <div class="col-lg-8 mb-4 mb-lg-0">
+        <h1 id="roomTitle"></h1>
+        <p id="roomDescription"></p>
+        <h2 class="fs-4">Room Features</h2>
+        <ul id="roomFeatures"></ul>
+      </div>
+      <div class="col-lg-4">
+        <div class="card shadow booking-card">
+          <div class="card-body">
+            <h2 class="card-title fs-4">Book This Room</h2>
+            <div class="d-flex align-items-end mb-2">
+              <span class="fs-2 fw-bold text-primary me-2" id="roomPrice"></span>
+              <span class="text-muted">per night</span>
+            </div>
+            <div class="rbc-calendar" id="availabilityCalendar"></div>
+            <div id="bookingPanel"></div>
+          </div>
+        </div>
+      </div>
+    </div>
+  </div>
+  <section class="section similar-rooms">
+    <div class="container">
+      <h2>Similar Rooms You Might Like</h2>
+      <div class="row" id="similarRooms"></div>
+    </div>
+  </section>
+  ${footer()}`;
+
+  return layout(`${branding.name} - Reservation`, body, ['common.js', 'calendar.js', 'reservation.js']);
+}
+
+export function renderAdminLoginPage(): string {
+  const body = `${navigationBar()}
+  <div class="container admin-login">
+    <div class="card shadow">
+      <div class="card-body">
+        <h2 class="card-title">Login</h2>
+        <div id="loginError"></div>
+        <form id="loginForm">
+          <label class="form-label" for="username">Username</label>
+          <input type="text" class="form-control" id="username" placeholder="Enter username" />
+          <label class="form-label" for="password">Password</label>
+          <input type="password" class="form-control" id="password" placeholder="Password" />
+          <button type="submit" class="btn btn-primary" id="doLogin">Login</button>
+        </form>
+      </div>
+    </div>
+  </div>`;
+
+  return layout(`${branding.name} - Admin`, body, ['common.js', 'admin-login.js']);
+}
+
+function roomTypeOptions(): string {
+  return ['Single', 'Twin', 'Double', 'Family', 'Suite'].map(type => `<option value="${type}">${type}</option>`).join('');
+}
+
+function featureCheckboxes(): string {
+  return ROOM_FEATURES.map(
+    feature =>
+      `<div class="form-check form-check-inline"><input class="form-check-input" type="checkbox" id="${feature.toLowerCase()}Checkbox" value="${feature}" /><label class="form-check-label" for="${feature.toLowerCase()}Checkbox">${feature}</label></div>`
+  ).join('');
+}
+
+function adminLayout(heading: string, content: string, scripts: string[]): string {
+  const body = `
+  <nav class="navbar navbar-dark bg-dark">
+    <div class="container">
+      <a class="navbar-brand" href="/admin/rooms">${escapeHtml(branding.name)} Admin</a>
+      <button class="navbar-toggler" type="button" aria-controls="navbarSupportedContent" aria-expanded="false" aria-label="Toggle navigation">
+        <span class="navbar-toggler-icon"></span>
+      </button>
+      <div class="collapse navbar-collapse" id="navbarSupportedContent">
+        <ul class="navbar-nav">
+          <li class="nav-item"><a class="nav-link" href="/admin/rooms">Rooms</a></li>
+          <li class="nav-item"><a class="nav-link" href="/admin/report">Report</a></li>
+          <li class="nav-item"><a class="nav-link" href="/admin/branding">Branding</a></li>
+          <li class="nav-item">
+            <a class="nav-link" href="/admin/message">Messages <span class="badge bg-danger" id="unreadCount" aria-label="unread messages"></span></a>
+          </li>
+          <li class="nav-item"><a class="nav-link" href="/">Front Page</a></li>
+          <li class="nav-item"><button type="button" class="btn btn-outline-light" id="logout">Logout</button></li>
+        </ul>
+      </div>
+    </div>
+  </nav>
+  <div class="container admin-content">
+    <h2>${escapeHtml(heading)}</h2>
+    ${content}
+  </div>`;
+
+  return layout(`${branding.name} - Admin`, body, ['common.js', 'admin.js', ...scripts]);
+}
+
+export function renderAdminRoomsPage(): string {
+  const content = `
+    <div id="roomErrors"></div>
+    <div class="row room-listing-header">
+      <div class="col-sm-1">Room #</div>
+      <div class="col-sm-2">Type</div>
+      <div class="col-sm-2">Accessible</div>
+      <div class="col-sm-1">Price</div>
+      <div class="col-sm-5">Room details</div>
+    </div>
+    <div id="roomListing"></div>
+    <form class="row room-form" id="createRoomForm">
+      <div class="col-sm-1"><input class="form-control" type="text" id="roomName" aria-label="Room name" /></div>
+      <div class="col-sm-2"><select class="form-control" id="type" aria-label="Room type">${roomTypeOptions()}</select></div>
+      <div class="col-sm-2">
+        <select class="form-control" id="accessible" aria-label="Accessible"><option value="false">false</option><option value="true">true</option></select>
+      </div>
+      <div class="col-sm-1"><input class="form-control" type="text" id="roomPrice" aria-label="Room price" /></div>
+      <div class="col-sm-5">${featureCheckboxes()}</div>
+      <div class="col-sm-1"><button type="submit" class="btn btn-outline-primary" id="createRoom">Create</button></div>
+    </form>`;
+
+  return adminLayout('Rooms', content, ['admin-rooms.js']);
+}
+
+export function renderAdminRoomEditorPage(roomId: number): string {
+  const content = `
+    <div class="room-editor" id="roomEditor" data-room-id="${roomId}">
+      <div id="roomErrors"></div>
+      <div class="d-flex justify-content-between">
+        <h3 id="roomHeading"></h3>
+        <button type="button" class="btn btn-outline-primary" id="editRoom">Edit</button>
+      </div>
+      <dl class="room-summary" id="roomSummary"></dl>
+      <form id="editRoomForm" hidden>
+        <label class="form-label" for="roomName">Room name</label>
+        <input class="form-control" type="text" id="roomName" />
+        <label class="form-label" for="type">Type</label>
+        <select class="form-control" id="type">${roomTypeOptions()}</select>
+        <label class="form-label" for="accessible">Accessible</label>
+        <select class="form-control" id="accessible"><option value="false">false</option><option value="true">true</option></select>
+        <label class="form-label" for="roomPrice">Room price</label>
+        <input class="form-control" type="text" id="roomPrice" />
+        <label class="form-label" for="description">Description</label>
+        <textarea class="form-control" id="description" rows="3"></textarea>
+        <div class="room-features">${featureCheckboxes()}</div>
+        <button type="button" class="btn btn-outline-danger" id="cancelEdit">Cancel</button>
+        <button type="submit" class="btn btn-outline-primary" id="update">Update</button>
+      </form>
+    </div>`;
+
+  return adminLayout('Room details', content, ['admin-room.js']);
+}
+
+export function renderAdminReportPage(): string {
+  return adminLayout('Report', '<div class="rbc-calendar" id="reportCalendar"></div>', ['calendar.js', 'admin-report.js']);
+}
+
+export function renderAdminMessagesPage(): string {
+  const content = `
+    <div class="messages">
+      <div class="row message-header">
+        <div class="col-sm-2">Name</div>
+        <div class="col-sm-9">Subject</div>
+      </div>
+      <div id="messageList"></div>
+    </div>
+    <div class="modal-overlay" id="messageModal" hidden>
+      <div class="message-modal" role="dialog" aria-modal="true" aria-labelledby="messageModalSubject" data-testid="message"></div>
+    </div>`;
+
+  return adminLayout('Messages', content, ['admin-messages.js']);
+}
+
+export function renderAdminBrandingPage(): string {
+  const content = `
+    <div id="brandingErrors"></div>
+    <form id="brandingForm">
+      <h3 class="h5">B&amp;B details</h3>
+      <label class="form-label" for="name">Name</label>
+      <input class="form-control" type="text" id="name" />
+      <label class="form-label" for="description">Description</label>
+      <textarea class="form-control" id="description" rows="3"></textarea>
+      <h3 class="h5">Contact details</h3>
+      <label class="form-label" for="contactAddress">Address</label>
+      <input class="form-control" type="text" id="contactAddress" />
+      <label class="form-label" for="contactPhone">Phone</label>
+      <input class="form-control" type="text" id="contactPhone" />
+      <label class="form-label" for="contactEmail">Email</label>
+      <input class="form-control" type="text" id="contactEmail" />
+      <button type="submit" class="btn btn-outline-primary" id="updateBranding">Submit</button>
+    </form>
+    <div class="modal-overlay" id="brandingModal" hidden>
+      <div class="message-modal" role="dialog" aria-modal="true" aria-labelledby="brandingModalTitle">
+        <p id="brandingModalTitle">Branding updated!</p>
+        <button type="button" class="btn btn-outline-primary" id="closeBrandingModal">Close</button>
+      </div>
+    </div>`;
+
+  return adminLayout('Branding', content, ['admin-branding.js']);
+}
@@ -0,0 +1,105 @@
+/**
+ * @file This file defines the `auditAccessibility` fixture, which runs an automated WCAG audit on the page
+ * a test is showing and compares the result with a reviewed baseline, the way `toHaveScreenshot` does for visuals.
+ *
+ * - Baselines live in `accessibility-baselines/<environment profile>/<project>/<page name>.json` and list the known
+ *   violations by rule and element selector, each with an optional `reason` filled in during review.
+ * - The audit fails only on violations missing from the baseline. Known violations are reported but tolerated,
+ *   and baseline entries that no longer occur are listed as resolved.
+ * - A readable report of every violation is attached to the test as `accessibility-<page name>`.
+ * - Running with `--update-snapshots` rewrites the baseline from the current violations, keeping the
+ *   review reasons of the entries that remain, so the change can be reviewed and committed.
+ * - Every audited page needs a committed baseline, `[]` when it has no known violations. As with
+ *   `toHaveScreenshot`, a missing baseline fails the audit; unless snapshot updates are off (`--update-snapshots=none`),
+ *   it is written from the current violations first, so it can be reviewed and committed.
+ *
+ * It exports `testWithAccessibilityAudit`, which `./page-fixture` merges into its test objects.
+ */
+
+import path from 'path';
+import { test as base } from '@playwright/test';
+import { expect } from '../utils/matchers';
+import {
+  compareWithBaseline,
+  describeViolation,
+  formatAccessibilityReport,
+  readAccessibilityBaseline,
+  runAccessibilityAudit,
+  writeAccessibilityBaseline,
+} from '../utils/accessibility';
+import { ACCESSIBILITY_BASELINE_DIR } from '../utils/constants';
+import { ENVIRONMENT } from '../utils/environment';
+import { AccessibilityAuditOptions } from '../utils/types';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface Fixtures
+ * @description Defines the types for the Playwright fixtures provided by `testWithAccessibilityAudit`.
+ * @property {function} auditAccessibility - Audits the current page and asserts it has no violations beyond its baseline.
+ */
+
+export const testWithAccessibilityAudit = base.extend<{
+  auditAccessibility: (pageName: string, options?: AccessibilityAuditOptions) => Promise<void>;
+}>({
+  /**
+   * @fixture auditAccessibility
+   * @description Audits the page in its current state. `pageName` names the baseline file, so each audited
+   * page or step needs its own name, such as `room-details-page` or `booking-confirmation`.
+   * @scope test
+   */
+
+  auditAccessibility: [
+    async ({ page }, use, testInfo) => {
+      const configDir = testInfo.config.configFile ? path.dirname(testInfo.config.configFile) : process.cwd();
+
+      await use(async (pageName, options) => {
+        const baselinePath = path.join(configDir, ACCESSIBILITY_BASELINE_DIR, ENVIRONMENT.name, testInfo.project.name, `${pageName}.json`);
+        const baseline = readAccessibilityBaseline(baselinePath);
+        const violations = await runAccessibilityAudit(page, options);
+        const comparison = compareWithBaseline(violations, baseline ?? []);
+
+        await testInfo.attach(`accessibility-${pageName}`, {
+          body: formatAccessibilityReport(pageName, baselinePath, comparison),
+          contentType: 'text/plain',
+        });
+
+        const { updateSnapshots } = testInfo.config;
+        if (baseline === undefined) {
+          if (updateSnapshots !== 'none') {
+            writeAccessibilityBaseline(baselinePath, violations, []);
+            logger.info(`Accessibility baseline for ${pageName} written with ${violations.length} known violations: ${baselinePath}`);
+          }
+          // As with toHaveScreenshot, only an explicit update of every or every changed baseline accepts a new one
+          if (updateSnapshots === 'all' || updateSnapshots === 'changed') {
+            return;
+          }
+          throw new Error(
+            `No accessibility baseline for ${pageName} at ${baselinePath}. ` +
+              (updateSnapshots === 'none'
+                ? 'Run with --update-snapshots to create it, then review and commit it.'
+                : 'It has been written from the current violations; review and commit it.')
+          );
+        }
+
+        const baselineChanged = comparison.newViolations.length > 0 || comparison.resolved.length > 0;
+        if (updateSnapshots === 'all' || (updateSnapshots === 'changed' && baselineChanged)) {
+          writeAccessibilityBaseline(baselinePath, violations, baseline);
+          logger.info(`Accessibility baseline for ${pageName} written with ${violations.length} known violations: ${baselinePath}`);
+          return;
+        }
+
+        if (comparison.resolved.length > 0) {
+          logger.info(`${comparison.resolved.length} violations in the ${pageName} accessibility baseline no longer occur`);
+        }
+        expect(
+          comparison.newViolations.map(describeViolation),
+          `New accessibility violations on ${pageName}, see the "accessibility-${pageName}" attachment. ` +
+            'Fix them, or run with --update-snapshots to add them to the reviewed baseline.'
+        ).toEqual([]);
+      });
+    },
+    { scope: 'test' },
+  ],
+});
+
+export { expect } from '../utils/matchers';
@@ -0,0 +1,135 @@
+/**
+ * @file This file defines Playwright fixtures for tests that need admin access.
+ * Each worker logs in once through the auth API and saves the returned token as a `token`
+ * cookie in a `storageState` file, instead of every test filling in the admin login form
+ * or every cleanup logging in again.
+ *
+ * It exports two test instances:
+ * - `testWithAdminApi` provides the worker-scoped `adminSession` and an authenticated `adminApi` client.
+ * - `testWithAdminSession` additionally provides `adminPage`, a page in a browser context that
+ *   starts already logged in to the admin panel.
+ *
+ * The session is logged out when the worker shuts down, so tests must not log it out themselves.
+ *
+ * Both build on `testWithSeed` (`./seed-fixture`), so faker is seeded for every test.
+ */
+
+import { Page } from '@playwright/test';
+import { testWithSeed } from './seed-fixture';
+import fs from 'fs';
+import path from 'path';
+import { AdminApiClient, AuthApiClient } from '../utils/api-helpers';
+import { ENVIRONMENT } from '../utils/environment';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface AdminSession
+ * @description The admin session shared by every test in a worker.
+ * @property {string} token - The admin token issued by the auth API.
+ * @property {string} storageStatePath - Path to the saved `storageState` file holding the `token` cookie.
+ */
+
+export interface AdminSession {
+  token: string;
+  storageStatePath: string;
+}
+
+/**
+ * @interface Fixtures
+ * @description Defines the types for the Playwright fixtures provided by `testWithAdminApi` and `testWithAdminSession`.
+ * @property {AdminSession} adminSession - The worker's admin session.
+ * @property {AdminApiClient} adminApi - Auth, booking, room and message clients authenticated with the worker's admin token.
+ * @property {Page} adminPage - A page whose browser context already holds the admin `token` cookie.
+ */
+
+export const testWithAdminApi = testWithSeed.extend<{}, { adminSession: AdminSession; adminApi: AdminApiClient }>({
+  /**
+   * @fixture adminSession
+   * @description Logs in as admin through the API and writes the token into a `storageState` file
+   * in the project's output directory. The token is logged out again once the worker finishes.
+   * @scope worker
+   */
+
+  adminSession: [
+    async ({ playwright }, use, workerInfo) => {
+      const requestContext = await playwright.request.newContext();
+      const authApiClient = new AuthApiClient(requestContext);
+      const token = await authApiClient.loginAsAdmin();
+
+      const { hostname, protocol } = new URL(ENVIRONMENT.baseUrl);
+      const storageStatePath = path.join(workerInfo.project.outputDir, '.auth', `admin-worker-${workerInfo.workerIndex}.json`);
+      fs.mkdirSync(path.dirname(storageStatePath), { recursive: true });
+      fs.writeFileSync(
+        storageStatePath,
+        JSON.stringify({
+          cookies: [
+            {
+              name: 'token',
+              value: token,
+              domain: hostname,
+              path: '/',
+              expires: -1,
+              httpOnly: false,
+              secure: protocol === 'https:',
+              sameSite: 'Lax',
+            },
+          ],
+          origins: [],
+        })
+      );
+      logger.info(`Worker ${workerInfo.workerIndex}: admin session saved to ${storageStatePath}`);
+
+      await use({ token, storageStatePath });
+
+      await authApiClient.logout(token);
+      await requestContext.dispose();
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * @fixture adminApi
+   * @description Provides API clients that reuse the worker's admin token, so no test or cleanup has to log in again.
+   * @scope worker
+   */
+
+  adminApi: [
+    async ({ playwright, adminSession }, use) => {
+      const requestContext = await playwright.request.newContext({ storageState: adminSession.storageStatePath });
+      await use(new AdminApiClient(requestContext, adminSession.token));
+      await requestContext.dispose();
+    },
+    { scope: 'worker' },
+  ],
+});
+
+export const testWithAdminSession = testWithAdminApi.extend<{ adminPage: Page }>({
+  /**
+   * @fixture adminPage
+   * @description Opens a page in a new browser context created from the saved admin `storageState`,
+   * using the project's base URL and device settings. The context is closed after the test.
+   * @scope test
+   */
+
+  adminPage: [
+    async ({ browser, adminSession, baseURL, viewport, userAgent, deviceScaleFactor, isMobile, hasTouch }, use) => {
+      const context = await browser.newContext({
+        baseURL,
+        viewport,
+        userAgent,
+        deviceScaleFactor,
+        isMobile,
+        hasTouch,
+        storageState: adminSession.storageStatePath,
+      });
+      const page = await context.newPage();
+
+      await use(page);
+
+      await context.close();
+    },
+    { scope: 'test' },
+  ],
+});
+
+export { expect } from '../utils/matchers';
@@ -0,0 +1,42 @@
+/**
+ * @file This file defines the `allocateStay` fixture, which hands out free stay dates to tests that book rooms.
+ * It wraps `allocateStayDates` (`../utils/date-allocation`) with the worker's admin API client and
+ * gives every concurrently running worker its own lane of windows, based on its parallel index.
+ *
+ * It exports `testWithStayDates`, which extends `testWithResources` (`./resource-fixture`).
+ */
+
+import { testWithResources } from './resource-fixture';
+import { allocateStayDates, StayAllocationOptions } from '../utils/date-allocation';
+import { BookingDates } from '../utils/types';
+
+/**
+ * @interface Fixtures
+ * @description Defines the types for the Playwright fixtures provided by `testWithStayDates`.
+ * @property {function} allocateStay - Returns the first window of `nights` nights that is free in every room of `roomIds`.
+ */
+
+export const testWithStayDates = testWithResources.extend<{
+  allocateStay: (options: Pick<StayAllocationOptions, 'nights' | 'roomIds'>) => Promise<BookingDates>;
+}>({
+  /**
+   * @fixture allocateStay
+   * @description Allocates free stay dates in this worker's lane, so parallel workers never share a window.
+   * @scope test
+   */
+
+  allocateStay: [
+    async ({ adminApi }, use, testInfo) => {
+      await use(options =>
+        allocateStayDates(adminApi, {
+          ...options,
+          lane: testInfo.parallelIndex,
+          laneCount: Math.max(testInfo.config.workers, 1),
+        })
+      );
+    },
+    { scope: 'test' },
+  ],
+});
+
+export { expect } from '../utils/matchers';
@@ -0,0 +1,42 @@
+/**
+ * @file This file defines the `testLog` fixture, which gives every test its own log context.
+ * While the test runs, everything written through `logger` (`../utils/logger`), at every level, is collected
+ * for that test and attached to it in the HTML report as `test-log`, so the output of tests running in
+ * parallel workers no longer has to be untangled from the console.
+ *
+ * It exports `testWithLogger`, the base of every other test object in `tests/common/fixtures`.
+ */
+
+import { test as base } from '@playwright/test';
+import { startTestLog, stopTestLog } from '../utils/logger';
+
+/**
+ * @interface Fixtures
+ * @description Defines the types for the Playwright fixtures provided by `testWithLogger`.
+ * @property {void} testLog - Collects the test's log lines and attaches them to the report.
+ */
+
+export const testWithLogger = base.extend<{ testLog: void }>({
+  /**
+   * @fixture testLog
+   * @description Starts the test's log context before any other test-scoped fixture, and attaches the collected
+   * lines once every other fixture has been torn down, so setup and cleanup output is included.
+   * @scope test
+   */
+
+  testLog: [
+    async ({}, use, testInfo) => {
+      startTestLog(testInfo.titlePath.slice(1).join(' › '), testInfo.parallelIndex);
+
+      await use();
+
+      const lines = stopTestLog();
+      if (lines.length > 0) {
+        await testInfo.attach('test-log', { body: lines.join('\n'), contentType: 'text/plain' });
+      }
+    },
+    { scope: 'test', auto: true },
+  ],
+});
+
+export { expect } from '../utils/matchers';
@@ -2,35 +2,62 @@
  * This file sets up Playwright fixtures for various page objects used in the test suite.
  * It exports two test instances: `test` and `testWithOptionalReservation`.
  *
- * The `test` instance extends the base Playwright `test` object and provides fixtures
+ * The `test` instance extends the resource-tracking test object (`../fixtures/resource-fixture`),
+ * which deletes every room, booking and message a test creates, and provides fixtures
  * for the following page objects:
  * - {@link HomePage}: Represents the home page of the application.
  * - {@link RoomDetailsPage}: Represents the room details page.
  * - {@link NavigationBarPage}: Represents the common navigation bar.
  * - {@link AdminPage}: Represents the administration page.
+ * - {@link AdminNavigationBarPage}, {@link AdminRoomsPage}, {@link AdminRoomEditorPage},
+ *   {@link AdminReportPage}, {@link AdminMessagesPage} and {@link AdminBrandingPage}:
+ *   Represent the admin panel screens shown after logging in.
  *
  * These page object fixtures are initialised with the current Playwright `page` object
  * and made available to tests that use this `test` instance.
  *
  * The `testWithOptionalReservation` instance extends a base test with optional reservation
- * functionality (`../fixtures/reservation-fixture`). It also includes the same page object
+ * functionality (`../fixtures/reservation-fixture`) and dedicated test rooms
+ * (`../fixtures/room-fixture`). It also includes the same page object
  * fixtures as the `test` instance.
  *
- * The file also re-exports `expect` and `Page` from `@playwright/test` for convenience
- * in test files.
+ * The `testAsAdmin` instance builds on dedicated test rooms and the worker's admin session
+ * (`../fixtures/admin-session-fixture`). Its default `page` starts from the saved admin
+ * `storageState`, so admin panel tests begin already logged in, and it provides the same
+ * page object fixtures on top.
+ *
+ * All three also provide `auditAccessibility` (`../fixtures/accessibility-fixture`), which runs a WCAG
+ * audit on the current page and fails only on violations missing from the page's reviewed baseline.
+ *
+ * The file also re-exports `Page` from `@playwright/test`, and `expect` extended with the
+ * framework's domain matchers (`../utils/matchers`), for convenience in test files.
  */
 
-import { test as base } from '@playwright/test';
+import { mergeTests } from '@playwright/test';
+import { testWithResources } from '../fixtures/resource-fixture';
+import { testWithAccessibilityAudit } from '../fixtures/accessibility-fixture';
 import { HomePage } from '../pages/home.page';
 import { RoomDetailsPage } from '../pages/room-details.page';
 import { NavigationBarPage } from '../pages/navigation-bar.page';
 import { AdminPage } from '../pages/admin.page';
+import { AdminNavigationBarPage } from '../pages/admin-navigation-bar.page';
+import { AdminRoomsPage } from '../pages/admin-rooms.page';
+import { AdminRoomEditorPage } from '../pages/admin-room-editor.page';
+import { AdminReportPage } from '../pages/admin-report.page';
+import { AdminMessagesPage } from '../pages/admin-messages.page';
+import { AdminBrandingPage } from '../pages/admin-branding.page';
 
 interface Fixtures {
   homePage: HomePage;
   roomDetailsPage: RoomDetailsPage;
   navigationBar: NavigationBarPage;
   adminPage: AdminPage;
+  adminNavigationBar: AdminNavigationBarPage;
+  adminRoomsPage: AdminRoomsPage;
+  adminRoomEditorPage: AdminRoomEditorPage;
+  adminReportPage: AdminReportPage;
+  adminMessagesPage: AdminMessagesPage;
+  adminBrandingPage: AdminBrandingPage;
 }
 
 /**
@@ -59,12 +86,50 @@ function getPageFiles() {
       const adminPage = new AdminPage(page);
       await use(adminPage);
     },
+    adminNavigationBar: async ({ page }, use) => {
+      const adminNavigationBar = new AdminNavigationBarPage(page);
+      await use(adminNavigationBar);
+    },
+    adminRoomsPage: async ({ page }, use) => {
+      const adminRoomsPage = new AdminRoomsPage(page);
+      await use(adminRoomsPage);
+    },
+    adminRoomEditorPage: async ({ page }, use) => {
+      const adminRoomEditorPage = new AdminRoomEditorPage(page);
+      await use(adminRoomEditorPage);
+    },
+    adminReportPage: async ({ page }, use) => {
+      const adminReportPage = new AdminReportPage(page);
+      await use(adminReportPage);
+    },
+    adminMessagesPage: async ({ page }, use) => {
+      const adminMessagesPage = new AdminMessagesPage(page);
+      await use(adminMessagesPage);
+    },
+    adminBrandingPage: async ({ page }, use) => {
+      const adminBrandingPage = new AdminBrandingPage(page);
+      await use(adminBrandingPage);
+    },
   };
 }
-export const test = base.extend<Fixtures>(getPageFiles());
+export const test = mergeTests(testWithResources, testWithAccessibilityAudit).extend<Fixtures>(getPageFiles());
 
 import { testWithOptionalReservation as baseWithOptionalReservation } from '../fixtures/reservation-fixture';
+import { testWithRoom } from '../fixtures/room-fixture';
 
-export const testWithOptionalReservation = baseWithOptionalReservation.extend<Fixtures>(getPageFiles());
+export const testWithOptionalReservation = mergeTests(
+  baseWithOptionalReservation,
+  testWithRoom,
+  testWithAccessibilityAudit
+).extend<Fixtures>(getPageFiles());
+
+export const testAsAdmin = mergeTests(testWithRoom, testWithAccessibilityAudit)
+  .extend({
+    storageState: async ({ adminSession }, use) => {
+      await use(adminSession.storageStatePath);
+    },
+  })
+  .extend<Fixtures>(getPageFiles());
 
-export { expect, Page } from '@playwright/test';
+export { Page } from '@playwright/test';
+export { expect } from '../utils/matchers';
@@ -1,59 +1,100 @@
 /**
  * @file This file defines Playwright fixtures for managing test setup related to room reservations.
- * It provides fixtures for dynamic check-in/check-out dates, guest details generation,
+ * It provides fixtures for check-in/check-out dates allocated from free windows (see `./date-fixture`), guest details generation,
  * and a `reservation` fixture that can execute a full or partial reservation flow
  * before a test runs. This allows tests to start from a specific state in the
  * reservation process without duplicating setup logic.
  *
- * It extends the base Playwright `test` object to include these custom fixtures,
+ * Setting `reservationMode: 'api'` seeds the reservation through the room and booking APIs
+ * instead of driving every step in the browser (see `apiSeededReservationFlow`). It only applies from
+ * `stopAt: 'enterGuestDetails'` on, as the earlier steps have nothing to seed. Setting
+ * `reservationMode: 'keyboard'` drives every step with the keyboard only (see `keyboardReservationFlow`).
+ *
+ * It extends the stay date allocation test object (`./date-fixture`) to include these custom fixtures,
  * making them available to any test file that imports `testWithOptionalReservation`.
  */
 
 import { test as base } from '@playwright/test';
 import { Page } from '@playwright/test';
 import { faker } from '@faker-js/faker';
-import { reservationFlow, ReservationFlowStep } from '../utils/setup-helpers';
-import { SelectedRoomDetails, GuestBookingDetails, EnquiryDetails } from '../utils/types';
+import { testWithStayDates } from './date-fixture';
+import { addDays, today } from '../utils/date-allocation';
+import {
+  apiSeededReservationFlow,
+  keyboardReservationFlow,
+  reservationFlow,
+  ReservationFlowStep,
+  ReservationMode,
+} from '../utils/setup-helpers';
+import { DEFAULT_FEE_SCHEDULE } from '../utils/pricing';
+import { findSeededRoomIds } from '../utils/room-selection';
+import { GuestBookingDetails, EnquiryDetails, FeeSchedule, ReservationResult, RoomSelectionStrategy } from '../utils/types';
+import { logger } from '../utils/logger';
 
 /**
  * @interface Fixtures
  * @description Defines the types for the Playwright fixtures provided by `testWithOptionalReservation`.
- * @property {string} checkInDate - The calculated check-in date for the reservation (YYYY-MM-DD format).
- * @property {string} checkOutDate - The calculated check-out date for the reservation (YYYY-MM-DD format).
+ * @property {number} stayNights - The length of the stay in nights. Defaults to 7.
+ * @property {string} checkInDate - The check-in date of a free window for the reservation (YYYY-MM-DD format).
+ * @property {string} checkOutDate - The check-out date, `stayNights` after the check-in date (YYYY-MM-DD format).
  * @property {ReservationFlowStep} stopAt - Specifies at which step the reservation flow should stop.
+ * @property {ReservationMode} reservationMode - Whether the reservation is driven through the UI (default), seeded through the API, or driven with the keyboard only.
+ * @property {RoomSelectionStrategy} roomSelection - How the room is chosen: by ID, type, price range, index, or at random from a seed among the seeded rooms (default).
+ * @property {FeeSchedule} feeSchedule - The cleaning and service fees, and any per-room fee rules, the price summary is checked against.
+ * Defaults to `DEFAULT_FEE_SCHEDULE`.
  * @property {GuestBookingDetails} guestDetails - Generated guest booking details, potentially overridden.
  * @property {Partial<GuestBookingDetails> | undefined} guestDetailsOverride - Optional partial override for guest details.
  * @property {Partial<EnquiryDetails> | undefined} enquiryDetailsOverride - Optional partial override for enquiry details.
- * @property {{ page: Page; selectedRoom?: SelectedRoomDetails; }} reservation - An object containing the Playwright `page`
- * and optionally the details of the room selected during the reservation flow.
+ * @property {{ page: Page } & ReservationResult} reservation - An object containing the Playwright `page` and whatever the
+ * reservation flow captured: the selected room, the displayed pricing, the booking request and the booking ID.
  */
 
-export const testWithOptionalReservation = base.extend<{
+export const testWithOptionalReservation = testWithStayDates.extend<{
+  stayNights: number;
   checkInDate: string;
   checkOutDate: string;
   stopAt: ReservationFlowStep;
+  reservationMode: ReservationMode;
+  roomSelection: RoomSelectionStrategy;
+  feeSchedule: FeeSchedule;
   guestDetails: GuestBookingDetails;
   guestDetailsOverride?: Partial<GuestBookingDetails>;
   enquiryDetailsOverride?: Partial<EnquiryDetails>;
-  reservation: {
-    page: Page;
-    selectedRoom?: SelectedRoomDetails;
-  };
+  reservation: { page: Page } & ReservationResult;
 }>({
-  checkInDate: [
+  stayNights: [
     async ({}, use) => {
-      const fourWeeksTime = new Date();
-      fourWeeksTime.setDate(fourWeeksTime.getDate() + 28);
-      await use(fourWeeksTime.toISOString().split('T')[0]);
+      await use(7);
+    },
+    { scope: 'test' },
+  ],
+
+  /**
+   * @fixture checkInDate
+   * @description Allocates a free window of `stayNights` nights in this worker's lane, free in every room `roomSelection`
+   * may pick: the targeted room, the rooms a random pick is limited to, or otherwise every listed room.
+   * @scope test
+   */
+
+  checkInDate: [
+    async ({ allocateStay, stayNights, roomSelection, adminApi }, use) => {
+      let roomIds: number[];
+      if (roomSelection.by === 'id') {
+        roomIds = [roomSelection.roomId];
+      } else if (roomSelection.by === 'random' && roomSelection.roomIds) {
+        roomIds = roomSelection.roomIds;
+      } else {
+        roomIds = (await adminApi.rooms.getRooms()).map(room => room.roomid);
+      }
+      const stay = await allocateStay({ nights: stayNights, roomIds });
+      await use(stay.checkin);
     },
     { scope: 'test' },
   ],
 
   checkOutDate: [
-    async ({ checkInDate }, use) => {
-      const checkOut = new Date(checkInDate);
-      checkOut.setDate(checkOut.getDate() + 7);
-      await use(checkOut.toISOString().split('T')[0]);
+    async ({ checkInDate, stayNights }, use) => {
+      await use(addDays(checkInDate, stayNights));
     },
     { scope: 'test' },
   ],
@@ -65,6 +106,28 @@ export const testWithOptionalReservation = base.extend<{
     { scope: 'test' },
   ],
 
+  reservationMode: [
+    async ({}, use) => {
+      await use('ui');
+    },
+    { scope: 'test' },
+  ],
+
+  roomSelection: [
+    async ({ adminApi }, use) => {
+      // Random picks are limited to the seeded rooms, as rooms other workers create may be deleted mid-test
+      await use({ by: 'random', roomIds: await findSeededRoomIds(adminApi.rooms) });
+    },
+    { scope: 'test' },
+  ],
+
+  feeSchedule: [
+    async ({}, use) => {
+      await use(DEFAULT_FEE_SCHEDULE);
+    },
+    { scope: 'test' },
+  ],
+
   guestDetailsOverride: [
     async ({}, use) => {
       await use(undefined);
@@ -104,29 +167,57 @@ export const testWithOptionalReservation = base.extend<{
   /**
    * @fixture reservation
    * @description Executes the `reservationFlow` utility function with the provided
-   * `checkInDate`, `checkOutDate`, `stopAt` step, and `guestDetails`.
+   * `checkInDate`, `checkOutDate`, `stopAt` step, and `guestDetails`, `apiSeededReservationFlow`
+   * when `reservationMode` is 'api', or `keyboardReservationFlow` when it is 'keyboard'.
    * This fixture sets up the browser state to a specific point in the reservation process.
    * After the test completes, it clears browser cookies for a clean state for subsequent tests.
+   * Bookings made by either flow are deleted by the `resources` fixture.
    * @param {object} providers - Playwright fixture providers.
    * @param {Page} providers.page - The Playwright Page object.
    * @param {string} providers.checkInDate - The check-in date.
    * @param {string} providers.checkOutDate - The check-out date.
    * @param {ReservationFlowStep} providers.stopAt - The step to stop the reservation flow.
+   * @param {ReservationMode} providers.reservationMode - Whether to drive the flow through the UI, seed it through the API, or drive it with the keyboard only.
+   * @param {RoomSelectionStrategy} providers.roomSelection - How to choose the room.
+   * @param {FeeSchedule} providers.feeSchedule - The fee schedule the price summary is checked against.
+   * @param {AdminApiClient} providers.adminApi - The worker's authenticated admin API client, used in API mode.
    * @param {GuestBookingDetails} providers.guestDetails - The guest details for the reservation.
-   * @param {function({ page: Page; selectedRoom?: SelectedRoomDetails; }): Promise<void>} use - Function to yield
-   * an object containing the `page` and optionally the `selectedRoom` details.
+   * @param {function({ page: Page } & ReservationResult): Promise<void>} use - Function to yield
+   * an object containing the `page` and the `ReservationResult` of the flow.
    * @returns {Promise<void>}
    * @scope test
    */
 
   reservation: [
-    async ({ page, checkInDate, checkOutDate, stopAt, guestDetails }, use) => {
-      let selectedRoom: SelectedRoomDetails | undefined;
+    async ({ page, checkInDate, checkOutDate, stopAt, reservationMode, roomSelection, feeSchedule, guestDetails, adminApi }, use) => {
+      if (checkInDate < today()) {
+        throw new Error(`Check-in date ${checkInDate} is in the past. Let the checkInDate fixture allocate a free window instead.`);
+      }
+
+      let result: ReservationResult;
+      switch (reservationMode) {
+        case 'api':
+          result = await apiSeededReservationFlow(
+            page,
+            adminApi,
+            checkInDate,
+            checkOutDate,
+            stopAt,
+            guestDetails,
+            roomSelection,
+            feeSchedule
+          );
+          break;
+        case 'keyboard':
+          result = await keyboardReservationFlow(page, checkInDate, checkOutDate, stopAt, guestDetails, roomSelection, feeSchedule);
+          break;
+        default:
+          result = await reservationFlow(page, checkInDate, checkOutDate, stopAt, guestDetails, roomSelection, feeSchedule);
+      }
 
-      selectedRoom = await reservationFlow(page, checkInDate, checkOutDate, stopAt, guestDetails);
+      await use({ page, ...result });
 
-      await use({ page, selectedRoom });
-      console.log('Clearing browser cookies...');
+      logger.info('Clearing browser cookies...');
       await page.context().clearCookies();
     },
     { scope: 'test' },
@@ -0,0 +1,69 @@
+/**
+ * @file This file defines the `resources` fixture, which cleans up after every test automatically.
+ * It records each room, booking and message the test creates, whether through an API client or
+ * through the browser, and deletes them in reverse order once the test has finished, so a spec
+ * no longer needs its own `afterEach` hook to avoid leaking data.
+ *
+ * Anything that cannot be removed is logged, added to the test as a `cleanup-failure` annotation
+ * and attached as `cleanup-failures.json`, without failing the test itself.
+ *
+ * It exports `testWithResources`, which extends `testWithAdminApi` (`./admin-session-fixture`)
+ * so that deletions use the worker's admin token.
+ */
+
+import { testWithAdminApi } from './admin-session-fixture';
+import { ResourceRegistry } from '../utils/resource-registry';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface Fixtures
+ * @description Defines the types for the Playwright fixtures provided by `testWithResources`.
+ * @property {ResourceRegistry} resources - The registry of entities created by the current test.
+ */
+
+export const testWithResources = testWithAdminApi.extend<{ resources: ResourceRegistry }>({
+  /**
+   * @fixture resources
+   * @description Activates a fresh `ResourceRegistry` for the test and, at teardown, deletes everything it recorded
+   * and reports what could not be removed. It runs for every test, whether or not the test asks for it.
+   * @scope test
+   */
+
+  resources: [
+    async ({ request, adminSession }, use, testInfo) => {
+      const registry = new ResourceRegistry(request, adminSession.token);
+      registry.activate();
+
+      await use(registry);
+
+      registry.deactivate();
+      const failures = await registry.cleanup();
+      if (failures.length > 0) {
+        for (const failure of failures) {
+          const { type, id } = failure.resource;
+          logger.error(`Could not clean up ${type}${id ? ` ID: ${id}` : ''}: ${failure.reason}`);
+          testInfo.annotations.push({ type: 'cleanup-failure', description: `${type}${id ? ` ${id}` : ''}: ${failure.reason}` });
+        }
+        await testInfo.attach('cleanup-failures.json', {
+          body: JSON.stringify(failures, null, 2),
+          contentType: 'application/json',
+        });
+      }
+    },
+    { scope: 'test', auto: true },
+  ],
+
+  /**
+   * @fixture context
+   * @description Extends the default browser context so that entities created through the UI are recorded as well.
+   * @scope test
+   */
+
+  context: async ({ context, resources }, use) => {
+    resources.watch(context);
+    await use(context);
+    await resources.settle();
+  },
+});
+
+export { expect } from '../utils/matchers';
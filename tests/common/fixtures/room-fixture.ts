@@ -0,0 +1,60 @@
+/**
+ * @file This file defines Playwright fixtures for tests that need a room they control.
+ * The `testRoom` fixture creates a dedicated room through the room API before the test
+ * and deletes it afterwards, so booking and pricing tests can assert against a known
+ * type, price and feature list rather than whatever rooms happen to exist.
+ *
+ * Individual tests or describe blocks can adjust the room with `testRoomOverride`.
+ */
+
+import { faker } from '@faker-js/faker';
+import { testWithStayDates } from './date-fixture';
+import { Room, RoomDetails } from '../utils/types';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface Fixtures
+ * @description Defines the types for the Playwright fixtures provided by `testWithRoom`.
+ * @property {Partial<RoomDetails> | undefined} testRoomOverride - Optional partial override for the generated room details.
+ * @property {Room} testRoom - The room created for the current test, including its `roomid`.
+ */
+
+export const testWithRoom = testWithStayDates.extend<{
+  testRoomOverride?: Partial<RoomDetails>;
+  testRoom: Room;
+}>({
+  testRoomOverride: [
+    async ({}, use) => {
+      await use(undefined);
+    },
+    { scope: 'test' },
+  ],
+
+  /**
+   * @fixture testRoom
+   * @description Creates a room through the room API with the worker's admin session, merging generated defaults with `testRoomOverride`,
+   * and deletes it (together with any bookings made for it) once the test has finished.
+   * @scope test
+   */
+
+  testRoom: [
+    async ({ adminApi, testRoomOverride }, use) => {
+      const roomDetails: RoomDetails = {
+        roomName: `T${faker.string.numeric(4)}`,
+        type: 'Double',
+        accessible: true,
+        roomPrice: faker.number.int({ min: 50, max: 300 }),
+        features: ['TV', 'WiFi'],
+        description: 'Dedicated room created for an automated test.',
+        ...testRoomOverride,
+      };
+      const room = await adminApi.rooms.createRoom(roomDetails);
+
+      await use(room);
+
+      logger.info(`Removing test room ID: ${room.roomid}...`);
+      await adminApi.rooms.deleteRoom(room.roomid);
+    },
+    { scope: 'test' },
+  ],
+});
@@ -0,0 +1,66 @@
+/**
+ * @file This file defines the `fakerSeed` fixture, which makes faker-generated test data reproducible.
+ * Before every test, faker is seeded with one seed per test: the `FAKER_SEED` environment variable if set,
+ * otherwise a seed derived from the test's ID, so the same test generates the same data on every run
+ * and retry. The seed is added to the report as a `faker-seed` annotation and attachment.
+ *
+ * To replay a data-dependent failure exactly, re-run the test with the seed from its report:
+ * `FAKER_SEED=<seed> npx playwright test <file> -g "<title>"`.
+ *
+ * Fixtures and specs must therefore call faker while the test runs (in fixtures, hooks or the test body),
+ * never at module load time, which happens before any seed is applied.
+ *
+ * It exports `testWithSeed`, which extends `testWithLogger` (`./log-fixture`) and which every other test object
+ * in `tests/common/fixtures` builds on.
+ */
+
+import { testWithLogger } from './log-fixture';
+import { faker } from '@faker-js/faker';
+import { FAKER_SEED } from '../utils/constants';
+import { logger } from '../utils/logger';
+
+/**
+ * Derives a stable 32-bit seed from a string (FNV-1a hash).
+ * @param value The string to hash, e.g. a test ID.
+ * @returns The seed.
+ */
+
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * @interface Fixtures
+ * @description Defines the types for the Playwright fixtures provided by `testWithSeed`.
+ * @property {number} fakerSeed - The seed faker was given for the current test.
+ */
+
+export const testWithSeed = testWithLogger.extend<{ fakerSeed: number }>({
+  /**
+   * @fixture fakerSeed
+   * @description Seeds faker for the test and records the seed in the report. It runs for every test, right after
+   * the test's log context is started and before any other test-scoped fixture, whether or not the test asks for it.
+   * @scope test
+   */
+
+  fakerSeed: [
+    async ({}, use, testInfo) => {
+      const seed = FAKER_SEED ?? seedFromString(testInfo.testId);
+      faker.seed(seed);
+
+      testInfo.annotations.push({ type: 'faker-seed', description: String(seed) });
+      await testInfo.attach('faker-seed', { body: String(seed), contentType: 'text/plain' });
+      logger.info(`Faker seed: ${seed}${FAKER_SEED === undefined ? ' (derived from the test ID)' : ' (from FAKER_SEED)'}`);
+
+      await use(seed);
+    },
+    { scope: 'test', auto: true },
+  ],
+});
+
+export { expect } from '../utils/matchers';
@@ -0,0 +1,68 @@
+import { Page, expect, Locator } from '@playwright/test';
+import { validateAndPerform } from '../utils/shared-helpers';
+import { BrandingDetails } from '../utils/types';
+
+export class AdminBrandingPage {
+  readonly page: Page;
+  readonly pageTitle: Locator;
+  readonly nameInput: Locator;
+  readonly descriptionInput: Locator;
+  readonly addressInput: Locator;
+  readonly phoneInput: Locator;
+  readonly emailInput: Locator;
+  readonly submitButton: Locator;
+  readonly brandingUpdatedMessage: Locator;
+  readonly closeConfirmationButton: Locator;
+  readonly brandingErrors: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.pageTitle = page.getByRole('heading', { name: 'Branding', exact: true });
+    this.nameInput = page.getByRole('textbox', { name: 'Name', exact: true });
+    this.descriptionInput = page.getByRole('textbox', { name: 'Description', exact: true });
+    this.addressInput = page.getByRole('textbox', { name: 'Address', exact: true });
+    this.phoneInput = page.getByRole('textbox', { name: 'Phone', exact: true });
+    this.emailInput = page.getByRole('textbox', { name: 'Email', exact: true });
+    this.submitButton = page.getByRole('button', { name: 'Submit', exact: true });
+    this.brandingUpdatedMessage = page.getByText('Branding updated!', { exact: true });
+    this.closeConfirmationButton = page.getByRole('button', { name: 'Close', exact: true });
+    this.brandingErrors = page.locator('//*[@class="alert alert-danger"]//p');
+  }
+
+  /**
+   * Opens the admin branding page directly and waits for the current branding to load into the form.
+   */
+  async goto(): Promise<void> {
+    await this.page.goto('/admin/branding');
+    await expect(this.pageTitle).toBeVisible();
+    await expect(this.nameInput).not.toHaveValue('');
+  }
+
+  /**
+   * Applies the given changes to the branding form and submits it.
+   * Fields that are not given keep their current values. This method does not assert the outcome.
+   * @param changes The branding details to change.
+   */
+  async updateBranding(changes: Partial<BrandingDetails>): Promise<void> {
+    const inputs: Record<keyof BrandingDetails, Locator> = {
+      name: this.nameInput,
+      description: this.descriptionInput,
+      address: this.addressInput,
+      phone: this.phoneInput,
+      email: this.emailInput,
+    };
+    for (const [field, value] of Object.entries(changes) as [keyof BrandingDetails, string][]) {
+      await validateAndPerform(inputs[field]).fill(value);
+    }
+    await validateAndPerform(this.submitButton).click();
+  }
+
+  /**
+   * Asserts that the branding was saved and dismisses the confirmation.
+   */
+  async confirmBrandingUpdated(): Promise<void> {
+    await expect(this.brandingUpdatedMessage).toBeVisible();
+    await validateAndPerform(this.closeConfirmationButton).click();
+    await expect(this.brandingUpdatedMessage).toBeHidden();
+  }
+}
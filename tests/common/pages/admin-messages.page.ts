@@ -0,0 +1,85 @@
+import { Page, expect, Locator } from '@playwright/test';
+import { validateAndPerform } from '../utils/shared-helpers';
+import { EnquiryDetails } from '../utils/types';
+
+export class AdminMessagesPage {
+  readonly page: Page;
+  readonly pageTitle: Locator;
+  readonly messageRows: Locator;
+  readonly messageModal: Locator;
+  readonly closeMessageButton: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.pageTitle = page.getByRole('heading', { name: 'Messages', exact: true });
+    this.messageRows = page.locator('//*[@class="messages"]//*[contains(@class, "detail")]');
+    this.messageModal = page.getByTestId('message');
+    this.closeMessageButton = this.messageModal.getByRole('button', { name: 'Close', exact: true });
+  }
+
+  /**
+   * Opens the admin messages inbox directly and waits for the messages to load.
+   */
+  async goto(): Promise<void> {
+    await this.page.goto('/admin/message');
+    await expect(this.pageTitle).toBeVisible();
+    await expect(this.messageRows.first()).toBeVisible();
+  }
+
+  /**
+   * Returns the inbox row for a message, located by the sender's name and the subject.
+   * @param name The sender's name.
+   * @param subject The message subject.
+   */
+  messageRow(name: string, subject: string): Locator {
+    return this.messageRows.filter({ hasText: name }).filter({ hasText: subject });
+  }
+
+  /**
+   * Asserts whether a message is shown as read or unread in the inbox.
+   * @param enquiry The enquiry the message was created from.
+   * @param read `true` if the message should be shown as read.
+   */
+  async assertReadState(enquiry: EnquiryDetails, read: boolean): Promise<void> {
+    await expect(this.messageRow(enquiry.name, enquiry.subject)).toHaveClass(new RegExp(`\\bread-${read}\\b`));
+  }
+
+  /**
+   * Opens a message from the inbox. Opening a message marks it as read.
+   * @param enquiry The enquiry the message was created from.
+   */
+  async openMessage(enquiry: EnquiryDetails): Promise<void> {
+    await validateAndPerform(this.messageRow(enquiry.name, enquiry.subject).getByText(enquiry.subject, { exact: true })).click();
+    await expect(this.messageModal).toBeVisible();
+  }
+
+  /**
+   * Asserts that the open message shows every field of the enquiry exactly as it was submitted.
+   * @param enquiry The enquiry the message was created from.
+   */
+  async assertMessageDetails(enquiry: EnquiryDetails): Promise<void> {
+    await expect(this.messageModal.locator('[data-field="name"]')).toHaveText(enquiry.name);
+    await expect(this.messageModal.locator('[data-field="phone"]')).toHaveText(enquiry.phone);
+    await expect(this.messageModal.locator('[data-field="email"]')).toHaveText(enquiry.email);
+    await expect(this.messageModal.locator('[data-field="subject"]')).toHaveText(enquiry.subject);
+    await expect(this.messageModal.locator('[data-field="description"]')).toHaveText(enquiry.message);
+  }
+
+  /**
+   * Closes the open message.
+   */
+  async closeMessage(): Promise<void> {
+    await validateAndPerform(this.closeMessageButton).click();
+    await expect(this.messageModal).toBeHidden();
+  }
+
+  /**
+   * Deletes a message from the inbox and asserts that its row disappears.
+   * @param enquiry The enquiry the message was created from.
+   */
+  async deleteMessage(enquiry: EnquiryDetails): Promise<void> {
+    const row = this.messageRow(enquiry.name, enquiry.subject);
+    await validateAndPerform(row.getByRole('button', { name: `Delete message from ${enquiry.name}`, exact: true })).click();
+    await expect(row).toHaveCount(0);
+  }
+}
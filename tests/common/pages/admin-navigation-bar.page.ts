@@ -0,0 +1,48 @@
+import { Page, expect, Locator } from '@playwright/test';
+
+export class AdminNavigationBarPage {
+  readonly page: Page;
+  readonly menuToggle: Locator;
+  readonly collapsibleMenu: Locator;
+  readonly roomsLink: Locator;
+  readonly reportLink: Locator;
+  readonly brandingLink: Locator;
+  readonly messagesLink: Locator;
+  readonly unreadMessagesBadge: Locator;
+  readonly frontPageLink: Locator;
+  readonly logoutButton: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.menuToggle = page.getByRole('button', { name: 'Toggle navigation' });
+    this.collapsibleMenu = page.locator('#navbarSupportedContent');
+    this.roomsLink = page.getByRole('link', { name: 'Rooms', exact: true });
+    this.reportLink = page.getByRole('link', { name: 'Report', exact: true });
+    this.brandingLink = page.getByRole('link', { name: 'Branding', exact: true });
+    this.messagesLink = page.getByRole('link', { name: /^Messages/ });
+    this.unreadMessagesBadge = this.messagesLink.locator('.badge');
+    this.frontPageLink = page.getByRole('link', { name: 'Front Page', exact: true });
+    this.logoutButton = page.getByRole('button', { name: 'Logout' });
+  }
+
+  /**
+   * Checks whether the admin links are collapsed behind the hamburger menu, as they are on mobile viewports.
+   * @returns True if the menu toggle is shown and the menu is closed.
+   */
+  async isMenuCollapsed(): Promise<boolean> {
+    await this.page.waitForLoadState();
+    return (await this.menuToggle.isVisible()) && (await this.menuToggle.getAttribute('aria-expanded')) !== 'true';
+  }
+
+  /**
+   * Opens the hamburger menu if the admin links are collapsed behind it, as `NavigationBarPage.openMenuIfCollapsed`
+   * does for the guest pages. Does nothing on desktop viewports or when the menu is already open.
+   */
+  async openMenuIfCollapsed(): Promise<void> {
+    if (await this.isMenuCollapsed()) {
+      await this.menuToggle.click();
+      await expect(this.menuToggle).toHaveAttribute('aria-expanded', 'true');
+      await expect(this.collapsibleMenu).toBeVisible();
+    }
+  }
+}
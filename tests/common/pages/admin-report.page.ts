@@ -0,0 +1,59 @@
+import { Page, expect, Locator } from '@playwright/test';
+import { AvailabilityCalendarComponent } from './availability-calendar.component';
+import { nightsOf } from '../utils/date-allocation';
+
+export class AdminReportPage {
+  readonly page: Page;
+  readonly pageTitle: Locator;
+  readonly calendar: AvailabilityCalendarComponent;
+  readonly reportCalendar: Locator;
+  readonly bookingEvents: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.pageTitle = page.getByRole('heading', { name: 'Report', exact: true });
+    this.calendar = new AvailabilityCalendarComponent(page, page.locator('.rbc-calendar'));
+    this.reportCalendar = this.calendar.monthView;
+    this.bookingEvents = this.calendar.monthView.locator('.rbc-event');
+  }
+
+  /**
+   * Opens the admin report page directly and waits for the calendar to render.
+   */
+  async goto(): Promise<void> {
+    await this.page.goto('/admin/report');
+    await expect(this.pageTitle).toBeVisible();
+    await expect(this.reportCalendar).toBeVisible();
+  }
+
+  /**
+   * Moves the calendar forwards or backwards until it shows the month containing the given date.
+   * @param date The target date in YYYY-MM-DD format.
+   */
+  async navigateToMonth(date: string): Promise<void> {
+    await this.calendar.navigateToMonth(date);
+  }
+
+  /**
+   * Asserts that a booking is shown on every night of the stay, moving between months as needed.
+   * The check-out day itself is not booked.
+   *
+   * The calendar loads its bookings after it renders, so each month is re-read until the booking shows or the check times out.
+   * @param title The event title, e.g. 'Jane Doe - Room: 101'.
+   * @param checkIn The check-in date in YYYY-MM-DD format.
+   * @param checkOut The check-out date in YYYY-MM-DD format.
+   */
+  async assertBookingShown(title: string, checkIn: string, checkOut: string): Promise<void> {
+    const nights = nightsOf({ checkin: checkIn, checkout: checkOut });
+    for (const monthPrefix of new Set(nights.map(night => night.slice(0, 7)))) {
+      const nightsInMonth = nights.filter(night => night.startsWith(monthPrefix));
+      await this.navigateToMonth(`${monthPrefix}-01`);
+      await expect(async () => {
+        const events = await this.calendar.getEventsInDisplayedMonth();
+        const shownOn = events.filter(({ titles }) => titles.includes(title)).map(({ date }) => date);
+        const missing = nightsInMonth.filter(night => !shownOn.includes(night));
+        expect(missing, `Expected "${title}" to be shown on ${missing.join(', ')}`).toEqual([]);
+      }).toPass({ timeout: 10_000 });
+    }
+  }
+}
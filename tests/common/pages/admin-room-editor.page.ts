@@ -0,0 +1,105 @@
+import { Page, expect, Locator } from '@playwright/test';
+import { validateAndPerform } from '../utils/shared-helpers';
+import { RoomDetails } from '../utils/types';
+import { ROOM_FEATURES } from '../utils/constants';
+
+export class AdminRoomEditorPage {
+  readonly page: Page;
+  readonly roomHeading: Locator;
+  readonly editButton: Locator;
+  readonly roomNameInput: Locator;
+  readonly typeSelect: Locator;
+  readonly accessibleSelect: Locator;
+  readonly roomPriceInput: Locator;
+  readonly descriptionInput: Locator;
+  readonly updateButton: Locator;
+  readonly cancelButton: Locator;
+  readonly roomErrors: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.roomHeading = page.getByRole('heading', { name: /^Room: / });
+    this.editButton = page.getByRole('button', { name: 'Edit', exact: true });
+    this.roomNameInput = page.getByRole('textbox', { name: 'Room name' });
+    this.typeSelect = page.getByRole('combobox', { name: 'Type' });
+    this.accessibleSelect = page.getByRole('combobox', { name: 'Accessible' });
+    this.roomPriceInput = page.getByRole('textbox', { name: 'Room price' });
+    this.descriptionInput = page.getByRole('textbox', { name: 'Description' });
+    this.updateButton = page.getByRole('button', { name: 'Update', exact: true });
+    this.cancelButton = page.getByRole('button', { name: 'Cancel', exact: true });
+    this.roomErrors = page.locator('//*[@class="alert alert-danger"]//p');
+  }
+
+  /**
+   * Opens the editor for a room directly.
+   * @param roomId The ID of the room to open.
+   */
+  async goto(roomId: number): Promise<void> {
+    await this.page.goto(`/admin/room/${roomId}`);
+    await expect(this.roomHeading).toBeVisible();
+  }
+
+  /**
+   * Returns the displayed value of a room detail, e.g. 'Type' or 'Room price'.
+   * @param label The label of the detail as shown on the page.
+   */
+  detailValue(label: string): Locator {
+    return this.page.locator(`[data-field="${label}"]`);
+  }
+
+  /**
+   * Returns the checkbox for a room feature in the edit form.
+   * @param feature The feature label, e.g. 'WiFi' or 'Safe'.
+   */
+  featureCheckbox(feature: string): Locator {
+    return this.page.getByRole('checkbox', { name: feature, exact: true });
+  }
+
+  /**
+   * Switches to the edit form, applies the given changes and submits them.
+   * Fields that are not given keep their current values. This method does not assert the outcome.
+   * @param changes The room details to change.
+   */
+  async updateRoom(changes: Partial<RoomDetails>): Promise<void> {
+    await validateAndPerform(this.editButton).click();
+    if (changes.roomName !== undefined) {
+      await validateAndPerform(this.roomNameInput).fill(changes.roomName);
+    }
+    if (changes.type !== undefined) {
+      await validateAndPerform(this.typeSelect).selectOption(changes.type);
+    }
+    if (changes.accessible !== undefined) {
+      await validateAndPerform(this.accessibleSelect).selectOption(String(changes.accessible));
+    }
+    if (changes.roomPrice !== undefined) {
+      await validateAndPerform(this.roomPriceInput).fill(String(changes.roomPrice));
+    }
+    if (changes.description !== undefined) {
+      await validateAndPerform(this.descriptionInput).fill(changes.description);
+    }
+    if (changes.features !== undefined) {
+      for (const feature of ROOM_FEATURES) {
+        const checkbox = validateAndPerform(this.featureCheckbox(feature));
+        await (changes.features.includes(feature) ? checkbox.check() : checkbox.uncheck());
+      }
+    }
+    await validateAndPerform(this.updateButton).click();
+  }
+
+  /**
+   * Asserts the room details shown once the editor is back in its read-only view.
+   * @param details The expected room details.
+   */
+  async assertRoomDetails(details: RoomDetails): Promise<void> {
+    await expect(this.roomHeading).toHaveText(`Room: ${details.roomName}`);
+    await expect(this.detailValue('Type')).toHaveText(details.type);
+    await expect(this.detailValue('Accessible')).toHaveText(String(details.accessible));
+    await expect(this.detailValue('Room price')).toHaveText(String(details.roomPrice));
+    for (const feature of details.features) {
+      await expect(this.detailValue('Features')).toContainText(feature);
+    }
+    if (details.description !== undefined) {
+      await expect(this.detailValue('Description')).toHaveText(details.description);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { Page, expect, Locator } from '@playwright/test';
+import { validateAndPerform } from '../utils/shared-helpers';
+import { RoomDetails } from '../utils/types';
+
+export class AdminRoomsPage {
+  readonly page: Page;
+  readonly pageTitle: Locator;
+  readonly roomListings: Locator;
+  readonly roomNameInput: Locator;
+  readonly typeSelect: Locator;
+  readonly accessibleSelect: Locator;
+  readonly roomPriceInput: Locator;
+  readonly createRoomButton: Locator;
+  readonly roomErrors: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.pageTitle = page.getByRole('heading', { name: 'Rooms', exact: true });
+    this.roomListings = page.getByTestId('roomlisting');
+    this.roomNameInput = page.locator('#roomName');
+    this.typeSelect = page.locator('#type');
+    this.accessibleSelect = page.locator('#accessible');
+    this.roomPriceInput = page.locator('#roomPrice');
+    this.createRoomButton = page.getByRole('button', { name: 'Create' });
+    this.roomErrors = page.locator('//*[@class="alert alert-danger"]//p');
+  }
+
+  /**
+   * Opens the admin rooms page directly and waits for the room listing to load.
+   */
+  async goto(): Promise<void> {
+    await this.page.goto('/admin/rooms');
+    await expect(this.pageTitle).toBeVisible();
+    await expect(this.roomListings.first()).toBeVisible();
+  }
+
+  /**
+   * Returns the checkbox for a room feature in the create room form.
+   * @param feature The feature label, e.g. 'WiFi' or 'Safe'.
+   */
+  featureCheckbox(feature: string): Locator {
+    return this.page.getByRole('checkbox', { name: feature, exact: true });
+  }
+
+  /**
+   * Returns the listing row for a room, located by its room name.
+   * @param roomName The room name shown in the first column, e.g. '101'.
+   */
+  roomListing(roomName: string): Locator {
+    return this.roomListings.filter({ has: this.page.locator(`[id="roomName${roomName}"]`) });
+  }
+
+  /**
+   * Fills in the create room form and submits it. This method does not assert the outcome,
+   * so it can also be used to check the validation errors.
+   * @param details The room to create. The description and image are not part of this form.
+   */
+  async createRoom(details: RoomDetails): Promise<void> {
+    await validateAndPerform(this.roomNameInput).fill(details.roomName);
+    await validateAndPerform(this.typeSelect).selectOption(details.type);
+    await validateAndPerform(this.accessibleSelect).selectOption(String(details.accessible));
+    await validateAndPerform(this.roomPriceInput).fill(String(details.roomPrice));
+    for (const feature of details.features) {
+      await validateAndPerform(this.featureCheckbox(feature)).check();
+    }
+    await validateAndPerform(this.createRoomButton).click();
+  }
+
+  /**
+   * Asserts that a room is listed with the expected type, accessibility, price and features.
+   * @param details The expected room details.
+   */
+  async assertRoomListed(details: RoomDetails): Promise<void> {
+    const listing = this.roomListing(details.roomName);
+    await expect(listing).toHaveCount(1);
+    await expect(listing).toContainText(details.type);
+    await expect(listing).toContainText(String(details.accessible));
+    await expect(listing).toContainText(String(details.roomPrice));
+    for (const feature of details.features) {
+      await expect(listing).toContainText(feature);
+    }
+  }
+
+  /**
+   * Opens the room editor for a listed room.
+   * @param roomName The room name shown in the listing.
+   */
+  async openRoom(roomName: string): Promise<void> {
+    await validateAndPerform(this.roomListing(roomName).locator(`[id="roomName${roomName}"]`)).click();
+    await expect(this.page).toHaveURL(/\/admin\/room\/\d+/);
+  }
+
+  /**
+   * Deletes a listed room and asserts that it disappears from the listing.
+   * @param roomName The room name shown in the listing.
+   */
+  async deleteRoom(roomName: string): Promise<void> {
+    await validateAndPerform(this.page.getByRole('button', { name: `Delete room ${roomName}`, exact: true })).click();
+    await expect(this.roomListing(roomName)).toHaveCount(0);
+  }
+}
@@ -0,0 +1,168 @@
+import { Page, expect, Locator } from '@playwright/test';
+import { validateAndPerform } from '../utils/shared-helpers';
+import { MONTH_NAMES } from '../utils/constants';
+import { nightsOf, startOfNextMonth } from '../utils/date-allocation';
+import { BookingDates } from '../utils/types';
+import { logger } from '../utils/logger';
+
+// Upper bound on month navigation, so a misread month label cannot click forever
+const MAX_MONTHS_TO_NAVIGATE = 120;
+
+export class AvailabilityCalendarComponent {
+  readonly page: Page;
+  readonly root: Locator;
+  readonly monthLabel: Locator;
+  readonly todayButton: Locator;
+  readonly backButton: Locator;
+  readonly nextButton: Locator;
+  readonly monthView: Locator;
+  readonly weekRows: Locator;
+
+  /**
+   * @param page The Playwright `Page` showing the calendar.
+   * @param root The calendar's container, e.g. the reservation page's availability calendar.
+   */
+  constructor(page: Page, root: Locator) {
+    this.page = page;
+    this.root = root;
+    this.monthLabel = root.locator('.rbc-toolbar-label');
+    this.todayButton = root.getByRole('button', { name: 'Today', exact: true });
+    this.backButton = root.getByRole('button', { name: 'Back', exact: true });
+    this.nextButton = root.getByRole('button', { name: 'Next', exact: true });
+    this.monthView = root.locator('.rbc-month-view');
+    this.weekRows = this.monthView.locator('.rbc-month-row');
+  }
+
+  /**
+   * Reads the month the calendar is showing.
+   * @returns The year and the zero-based month index.
+   * @throws Error if the month label cannot be parsed.
+   */
+  async getDisplayedMonth(): Promise<{ year: number; month: number }> {
+    const label = ((await this.monthLabel.textContent()) ?? '').trim();
+    const [monthName, year] = label.split(/\s+/);
+    const month = MONTH_NAMES.indexOf(monthName);
+    if (month === -1 || isNaN(Number(year))) {
+      throw new Error(`Could not read the displayed month from the calendar label "${label}".`);
+    }
+    return { year: Number(year), month };
+  }
+
+  /**
+   * Moves the calendar back or forward, one month at a time, until it shows the month of the given date.
+   * @param isoDate Any date in the target month, in 'YYYY-MM-DD' format.
+   * @throws Error if the month is more than `MAX_MONTHS_TO_NAVIGATE` months away.
+   */
+  async navigateToMonth(isoDate: string): Promise<void> {
+    const [targetYear, targetMonth] = isoDate.split('-').map(Number);
+    const target = targetYear * 12 + (targetMonth - 1);
+
+    for (let step = 0; step <= MAX_MONTHS_TO_NAVIGATE; step++) {
+      const { year, month } = await this.getDisplayedMonth();
+      const offset = target - (year * 12 + month);
+      if (offset === 0) {
+        return;
+      }
+      await validateAndPerform(offset > 0 ? this.nextButton : this.backButton).click();
+      const next = year * 12 + month + Math.sign(offset);
+      await expect(this.monthLabel).toHaveText(`${MONTH_NAMES[next % 12]} ${Math.floor(next / 12)}`);
+    }
+    throw new Error(`Could not navigate the calendar to ${isoDate} within ${MAX_MONTHS_TO_NAVIGATE} months.`);
+  }
+
+  /**
+   * Reads the event titles shown on each day of the displayed month.
+   *
+   * react-big-calendar does not draw events inside the day cells: each week row holds one row per event level,
+   * made of `.rbc-row-segment`s whose flex-basis is the share of the week they span, with empty segments filling
+   * the gaps. The days an event covers are therefore worked out from the position and width of its segment.
+   * Events hidden behind a "+N more" link are not read.
+   *
+   * @returns The days of the displayed month that show at least one event, with their titles, in order.
+   */
+  async getEventsInDisplayedMonth(): Promise<{ date: string; titles: string[] }[]> {
+    const { year, month } = await this.getDisplayedMonth();
+    const weeks = await this.weekRows.evaluateAll(rows =>
+      rows.map(row => {
+        const dateCells = Array.from(row.querySelectorAll('.rbc-row-content > .rbc-row > .rbc-date-cell'));
+        const columnWidth = 100 / dateCells.length;
+        const titles: string[][] = dateCells.map(() => []);
+        row.querySelectorAll('.rbc-row-content > .rbc-row').forEach(level => {
+          let column = 0;
+          level.querySelectorAll<HTMLElement>(':scope > .rbc-row-segment').forEach(segment => {
+            const span = Math.round(parseFloat(segment.style.flexBasis) / columnWidth) || 1;
+            const event = segment.querySelector('.rbc-event-content');
+            if (event) {
+              const title = event.getAttribute('title') ?? event.textContent?.trim() ?? '';
+              titles.slice(column, column + span).forEach(dayTitles => dayTitles.push(title));
+            }
+            column += span;
+          });
+        });
+        // Days of neighbouring months shown to fill the week are marked off-range
+        return dateCells.map((cell, column) => ({
+          day: Number(cell.textContent),
+          offRange: cell.classList.contains('rbc-off-range'),
+          titles: titles[column],
+        }));
+      })
+    );
+    const monthPrefix = `${year}-${String(month + 1).padStart(2, '0')}`;
+    return weeks
+      .flat()
+      .filter(({ offRange, titles }) => !offRange && titles.length > 0)
+      .map(({ day, titles }) => ({ date: `${monthPrefix}-${String(day).padStart(2, '0')}`, titles }));
+  }
+
+  /**
+   * Lists the days of the displayed month that show as booked, i.e. that carry at least one event
+   * (titled "Unavailable" on the guest-facing calendar).
+   * @returns The unavailable days in 'YYYY-MM-DD' format, in order.
+   */
+  async getUnavailableDatesInDisplayedMonth(): Promise<string[]> {
+    return (await this.getEventsInDisplayedMonth()).map(({ date }) => date);
+  }
+
+  /**
+   * Lists the unavailable days within a date range, navigating through every month the range covers.
+   * @param from The first date of the range, in 'YYYY-MM-DD' format.
+   * @param to The day after the last date of the range, in 'YYYY-MM-DD' format.
+   * @returns The unavailable days in 'YYYY-MM-DD' format, in order.
+   */
+  async getUnavailableDates(from: string, to: string): Promise<string[]> {
+    const unavailableDates: string[] = [];
+    for (let monthStart = `${from.slice(0, 7)}-01`; monthStart < to; monthStart = startOfNextMonth(monthStart)) {
+      await this.navigateToMonth(monthStart);
+      unavailableDates.push(...(await this.getUnavailableDatesInDisplayedMonth()));
+    }
+    return unavailableDates.filter(date => from <= date && date < to);
+  }
+
+  /**
+   * Asserts that the days shown as unavailable within a date range are exactly the nights of the given bookings,
+   * for example the bookings the booking API returns for the calendar's room.
+   *
+   * The calendar loads its bookings after it renders, so the comparison is retried until it matches or times out.
+   * On failure, the message lists the nights missing from the calendar and the days it blocks without a booking.
+   *
+   * @param bookings The stay dates of the room's bookings.
+   * @param from The first date of the range, in 'YYYY-MM-DD' format.
+   * @param to The day after the last date of the range, in 'YYYY-MM-DD' format.
+   */
+  async assertUnavailableDatesMatchBookings(bookings: BookingDates[], from: string, to: string): Promise<void> {
+    const expectedDates = [...new Set(bookings.flatMap(nightsOf))].filter(date => from <= date && date < to).sort();
+
+    await expect(async () => {
+      const displayedDates = await this.getUnavailableDates(from, to);
+      const missing = expectedDates.filter(date => !displayedDates.includes(date));
+      const unexpected = displayedDates.filter(date => !expectedDates.includes(date));
+      expect(
+        displayedDates,
+        `Calendar days from ${from} to ${to} do not match the room's bookings. ` +
+          `Booked nights not shown as unavailable: ${JSON.stringify(missing)}. Days shown as unavailable without a booking: ${JSON.stringify(unexpected)}.`
+      ).toEqual(expectedDates);
+    }).toPass({ timeout: 10_000 });
+
+    logger.info(`Calendar shows ${expectedDates.length} unavailable day(s) from ${from} to ${to}, matching the room's bookings.`);
+  }
+}
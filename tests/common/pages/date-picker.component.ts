@@ -0,0 +1,210 @@
+import { Page, expect, Locator } from '@playwright/test';
+import { validateAndPerform } from '../utils/shared-helpers';
+import { MONTH_NAMES } from '../utils/constants';
+import { logger } from '../utils/logger';
+
+// Upper bound on month navigation, so a misread month label cannot click forever
+const MAX_MONTHS_TO_NAVIGATE = 120;
+
+export class DatePickerComponent {
+  readonly page: Page;
+  readonly input: Locator;
+  readonly popup: Locator;
+  readonly currentMonthLabel: Locator;
+  readonly previousMonthButton: Locator;
+  readonly nextMonthButton: Locator;
+  readonly keyboardSelectedDay: Locator;
+
+  /**
+   * @param page The Playwright `Page` showing the date picker.
+   * @param input The text input the date picker is attached to, e.g. the home page's Check In input.
+   */
+  constructor(page: Page, input: Locator) {
+    this.page = page;
+    this.input = input;
+    this.popup = page.locator('//*[@class="react-datepicker"]');
+    this.currentMonthLabel = this.popup.locator('.react-datepicker__current-month');
+    this.previousMonthButton = this.popup.getByRole('button', { name: 'Previous Month' });
+    this.nextMonthButton = this.popup.getByRole('button', { name: 'Next Month' });
+    this.keyboardSelectedDay = this.popup.locator('.react-datepicker__day--keyboard-selected');
+  }
+
+  /**
+   * Formats a date the way the date picker names its days, e.g. "Monday, 7 July".
+   * `Date.UTC` is used so the local timezone cannot shift the day or the weekday.
+   * @param isoDate The date in 'YYYY-MM-DD' format.
+   */
+  private describeDay(isoDate: string): string {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    const weekday = date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+    return `${weekday}, ${day} ${MONTH_NAMES[month - 1]}`;
+  }
+
+  /**
+   * Returns the day option for a date in the displayed month, whether it can be chosen ("Choose ...")
+   * or is disabled ("Not available ..."). Days of neighbouring months shown to fill the weeks are excluded.
+   * @param isoDate The date in 'YYYY-MM-DD' format.
+   */
+  dayOption(isoDate: string): Locator {
+    return this.popup
+      .getByRole('option', { name: new RegExp(`^(Choose|Not available) ${this.describeDay(isoDate)}\\b`) })
+      .and(this.page.locator(':not(.react-datepicker__day--outside-month)'));
+  }
+
+  /**
+   * Opens the date picker by clicking its input, unless it is already open.
+   */
+  async open(): Promise<void> {
+    if (!(await this.popup.isVisible())) {
+      await validateAndPerform(this.input).click();
+    }
+    await this.popup.waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Closes the date picker without choosing a date.
+   */
+  async close(): Promise<void> {
+    await this.input.press('Escape');
+    await this.popup.waitFor({ state: 'hidden' });
+  }
+
+  /**
+   * Reads the month the open date picker is showing.
+   * @returns The year and the zero-based month index.
+   * @throws Error if the month label cannot be parsed.
+   */
+  async getDisplayedMonth(): Promise<{ year: number; month: number }> {
+    const label = ((await this.currentMonthLabel.textContent()) ?? '').trim();
+    const [monthName, year] = label.split(/\s+/);
+    const month = MONTH_NAMES.indexOf(monthName);
+    if (month === -1 || isNaN(Number(year))) {
+      throw new Error(`Could not read the displayed month from the date picker label "${label}".`);
+    }
+    return { year: Number(year), month };
+  }
+
+  /**
+   * Moves the open date picker forwards or backwards, one month at a time, until it shows the month of the given date.
+   * @param isoDate Any date in the target month, in 'YYYY-MM-DD' format.
+   * @throws Error if the month is more than `MAX_MONTHS_TO_NAVIGATE` months away.
+   */
+  async navigateToMonth(isoDate: string): Promise<void> {
+    const [targetYear, targetMonth] = isoDate.split('-').map(Number);
+    const target = targetYear * 12 + (targetMonth - 1);
+
+    for (let step = 0; step <= MAX_MONTHS_TO_NAVIGATE; step++) {
+      const { year, month } = await this.getDisplayedMonth();
+      const offset = target - (year * 12 + month);
+      if (offset === 0) {
+        return;
+      }
+      await validateAndPerform(offset > 0 ? this.nextMonthButton : this.previousMonthButton).click();
+      const next = year * 12 + month + Math.sign(offset);
+      await expect(this.currentMonthLabel).toHaveText(`${MONTH_NAMES[next % 12]} ${Math.floor(next / 12)}`);
+    }
+    throw new Error(`Could not navigate the date picker to ${isoDate} within ${MAX_MONTHS_TO_NAVIGATE} months.`);
+  }
+
+  /**
+   * Checks whether a day is disabled in the date picker (for example because it is in the past).
+   * Opens the date picker and navigates to the day's month if needed.
+   * @param isoDate The date in 'YYYY-MM-DD' format.
+   */
+  async isDateDisabled(isoDate: string): Promise<boolean> {
+    await this.open();
+    await this.navigateToMonth(isoDate);
+    return (await this.dayOption(isoDate).getAttribute('aria-disabled')) === 'true';
+  }
+
+  /**
+   * Chooses a date by clicking its day, navigating to its month first.
+   *
+   * Disabled days (such as past days) are rejected unless `allowDisabled` is set, in which case the day is
+   * clicked anyway, for negative tests that check the picker ignores it. The picker is then closed again.
+   *
+   * @param isoDate The date to choose, in 'YYYY-MM-DD' format.
+   * @param options.allowDisabled Whether to click the day even if the date picker marks it as disabled.
+   * @throws Error if the day is disabled and `allowDisabled` is not set.
+   */
+  async selectDate(isoDate: string, { allowDisabled = false }: { allowDisabled?: boolean } = {}): Promise<void> {
+    const disabled = await this.isDateDisabled(isoDate);
+    const day = this.dayOption(isoDate);
+
+    if (!disabled) {
+      await validateAndPerform(day).click();
+      await this.popup.waitFor({ state: 'hidden' });
+      logger.info(`Selected ${isoDate} in the date picker.`);
+      return;
+    }
+
+    if (!allowDisabled) {
+      throw new Error(`Cannot select ${isoDate}: the date picker marks it as not available. Pass allowDisabled for negative tests.`);
+    }
+    await day.click({ force: true });
+    logger.info(`Clicked disabled day ${isoDate} in the date picker.`);
+    if (await this.popup.isVisible()) {
+      await this.close();
+    }
+  }
+
+  /**
+   * Reads the date of the day the keyboard selection is on, from its "Choose Monday, 7 July 2025" label.
+   * @returns The date in 'YYYY-MM-DD' format.
+   * @throws Error if the label cannot be parsed.
+   */
+  async getKeyboardSelectedDate(): Promise<string> {
+    const label = (await this.keyboardSelectedDay.getAttribute('aria-label')) ?? '';
+    const match = label.match(/(\d{1,2}) (\w+) (\d{4})$/);
+    const month = match ? MONTH_NAMES.indexOf(match[2]) : -1;
+    if (!match || month === -1) {
+      throw new Error(`Could not read the keyboard-selected day from its label "${label}".`);
+    }
+    return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+
+  /**
+   * Chooses a date with the keyboard only, as react-datepicker allows: ArrowDown moves focus from the input
+   * into the calendar, ArrowDown and ArrowUp then move a week at a time and ArrowRight and ArrowLeft a day
+   * at a time, and Enter chooses the day. The input must already have focus, for example through `KeyboardDriver.tabTo`.
+   *
+   * @param isoDate The date to choose, in 'YYYY-MM-DD' format.
+   * @throws Error if the day is disabled in the date picker.
+   */
+  async selectDateWithKeyboard(isoDate: string): Promise<void> {
+    await expect(this.input, 'The date picker input must have focus before choosing a date with the keyboard').toBeFocused();
+    await this.page.keyboard.press('ArrowDown');
+    await expect(this.keyboardSelectedDay).toBeFocused();
+
+    const daysAway = Math.round((Date.parse(isoDate) - Date.parse(await this.getKeyboardSelectedDate())) / (24 * 60 * 60 * 1000));
+    const presses: string[] = [
+      ...Array(Math.floor(Math.abs(daysAway) / 7)).fill(daysAway > 0 ? 'ArrowDown' : 'ArrowUp'),
+      ...Array(Math.abs(daysAway) % 7).fill(daysAway > 0 ? 'ArrowRight' : 'ArrowLeft'),
+    ];
+    for (const key of presses) {
+      await this.page.keyboard.press(key);
+    }
+    expect(await this.getKeyboardSelectedDate(), `The keyboard selection did not land on ${isoDate}`).toBe(isoDate);
+
+    if ((await this.keyboardSelectedDay.getAttribute('aria-disabled')) === 'true') {
+      throw new Error(`Cannot select ${isoDate}: the date picker marks it as not available.`);
+    }
+    await this.page.keyboard.press('Enter');
+    await this.popup.waitFor({ state: 'hidden' });
+    await expect(this.input).toBeFocused();
+    logger.info(`Selected ${isoDate} in the date picker with the keyboard (${presses.length} arrow presses).`);
+  }
+
+  /**
+   * Types a date directly into the input, in the dd/MM/yyyy format the date picker displays, and closes the picker.
+   * The date is committed with Enter rather than Tab, which would focus the next input and open its picker.
+   * @param isoDate The date to type, in 'YYYY-MM-DD' format.
+   */
+  async typeDate(isoDate: string): Promise<void> {
+    const [year, month, day] = isoDate.split('-');
+    await validateAndPerform(this.input).fill(`${day}/${month}/${year}`);
+    await this.input.press('Enter');
+    await this.popup.waitFor({ state: 'hidden' });
+  }
+}
@@ -1,7 +1,10 @@
 import { Page, expect, Locator } from '@playwright/test';
 import { expectVisibleAndEnabled, validateAndPerform, getDigits } from '../utils/shared-helpers';
-import { SelectedRoomDetails, RoomOptionInternalDetails, EnquiryDetails } from '../utils/types';
+import { SelectedRoomDetails, RoomOptionInternalDetails, EnquiryDetails, RoomSelectionStrategy } from '../utils/types';
+import { selectRoomByStrategy } from '../utils/room-selection';
+import { DatePickerComponent } from './date-picker.component';
 import { faker } from '@faker-js/faker';
+import { logger } from '../utils/logger';
 
 export class HomePage {
   readonly page: Page;
@@ -9,10 +12,8 @@ export class HomePage {
   readonly primaryBookNowButton: Locator;
   readonly checkInDateInput: Locator;
   readonly checkOutDateInput: Locator;
-  readonly datePickerModal: Locator;
-  readonly checkInDateToSelect: Locator;
-  readonly checkOutDateToSelect: Locator;
-  readonly nextMonthButton: Locator;
+  readonly checkInDatePicker: DatePickerComponent;
+  readonly checkOutDatePicker: DatePickerComponent;
   readonly checkAvailabilityButton: Locator;
   readonly locationTitle: Locator;
   readonly roomsTitle: Locator;
@@ -43,10 +44,8 @@ export class HomePage {
       .locator('div')
       .filter({ hasText: /^Check Out$/ })
       .getByRole('textbox');
-    this.datePickerModal = page.locator('//*[@class="react-datepicker"]');
-    this.checkInDateToSelect = page.getByRole('button', { name: '' });
-    this.checkOutDateToSelect = page.getByRole('button', { name: '' });
-    this.nextMonthButton = page.getByRole('button', { name: 'Next Month' });
+    this.checkInDatePicker = new DatePickerComponent(page, this.checkInDateInput);
+    this.checkOutDatePicker = new DatePickerComponent(page, this.checkOutDateInput);
     this.checkAvailabilityButton = page.getByRole('button', { name: 'Check Availability', exact: true });
     this.locationTitle = page.getByRole('heading', { name: 'Our Location' });
     this.roomsTitle = page.getByRole('heading', { name: 'Our Rooms' });
@@ -73,85 +72,33 @@ export class HomePage {
   }
 
   /**
-   * Formats a date string into a more readable format for a date picker.
+   * Enters the check-in and check-out dates into the date picker and submits the form.
    *
-   * This function takes a date string in 'YYYY-MM-DD' format and converts it into
-   * a human-readable string like "Weekday, Day MonthName" (e.g., "Monday, 7 July").
-   * It uses `Date.UTC` to prevent timezone issues from affecting the day, especially
-   * during the calculation of the weekday.
+   * This asynchronous function chooses each date in its date picker, navigating forwards or
+   * backwards through as many months as needed, and then clicks the "Check Availability" button.
    *
-   * @param dateString The date string to format, in 'YYYY-MM-DD' format.
-   * @returns The formatted date string (e.g., "Monday, 7 July").
-   */
-
-  private formatDateForDatePicker(dateString: string): string {
-    const [year, month, day] = dateString.split('-').map(Number);
-    // Use Date.UTC to prevent timezone issues shifting the day, especially for 'weekday' calculation
-    const date = new Date(Date.UTC(year, month - 1, day)); // Month is 0-indexed in JS Date (July = 6)
-
-    const weekday = date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }); // e.g., "Monday"
-    const dayOfMonth = date.getUTCDate(); // e.g., 7
-    const monthName = date.toLocaleDateString('en-US', { month: 'long', timeZone: 'UTC' }); // e.g., "July"
-
-    return `${weekday}, ${dayOfMonth} ${monthName}`;
-  }
-
-  /**
-   * Helper method to click a date in the date picker.
-   * If the date is not visible, it clicks the 'Next Month' button once and retries.
-   *
-   * @param dateLocator The Playwright Locator for the specific date 'option' to click.
-   * @param dateDescription A descriptive string for logging (e.g., "Check-in Date: 2025-07-15").
+   * @param page The Playwright `Page` object to interact with the browser.
+   * @param checkInDate The desired check-in date in 'YYYY-MM-DD' format.
+   * @param checkOutDate The desired check-out date in 'YYYY-MM-DD' format.
    */
-  private async selectDateInDatePicker(dateLocator: Locator, dateDescription: string): Promise<void> {
-    if (await dateLocator.isVisible()) {
-      await validateAndPerform(dateLocator).click();
-      console.log(`Successfully selected ${dateDescription}.`);
-      return;
-    }
-
-    console.warn(`${dateDescription} not visible in current month. Clicking next month arrow.`);
-    await validateAndPerform(this.nextMonthButton).click();
-    await this.datePickerModal.waitFor({ state: 'visible' });
 
-    if (await dateLocator.isVisible()) {
-      await validateAndPerform(dateLocator).click();
-      console.log(`Successfully selected ${dateDescription} after navigating to next month.`);
-      return;
-    } else {
-      throw new Error(`Failed to select ${dateDescription}. It was not found in the current or next month view.`);
-    }
+  async enterCheckInCheckOutDatesAndSubmit(page, checkInDate: string, checkOutDate: string): Promise<void> {
+    await this.checkInDatePicker.selectDate(checkInDate);
+    await this.checkOutDatePicker.selectDate(checkOutDate);
+    await validateAndPerform(this.checkAvailabilityButton).click();
   }
 
   /**
-   * Enters the check-in and check-out dates into the date picker and submits the form.
+   * Types the check-in and check-out dates directly into their inputs, instead of using the date pickers,
+   * and submits the form.
    *
-   * This asynchronous function automates the process of selecting check-in and check-out dates
-   * within a date picker component and then clicking the "Check Availability" button.
-   * It formats the provided date strings for display in the date picker,
-   * interacts with the UI elements to select the dates, and includes
-   * waits to ensure the date picker modal is visible and hidden at appropriate times.
-   *
-   * @param page The Playwright `Page` object to interact with the browser.
    * @param checkInDate The desired check-in date in 'YYYY-MM-DD' format.
    * @param checkOutDate The desired check-out date in 'YYYY-MM-DD' format.
    */
 
-  async enterCheckInCheckOutDatesAndSubmit(page, checkInDate: string, checkOutDate: string): Promise<void> {
-    const formattedCheckInDate = this.formatDateForDatePicker(checkInDate);
-    const formattedCheckOutDate = this.formatDateForDatePicker(checkOutDate);
-
-    const checkInDateToSelect = this.page.getByRole('option', { name: `Choose ${formattedCheckInDate}` });
-    const checkOutDateToSelect = this.page.getByRole('option', { name: `Choose ${formattedCheckOutDate}` });
-
-    await validateAndPerform(this.checkInDateInput).click();
-    await this.datePickerModal.waitFor({ state: 'visible' });
-    await this.selectDateInDatePicker(checkInDateToSelect, `Check-in Date: ${checkInDate}`);
-    await this.datePickerModal.waitFor({ state: 'hidden' });
-    await validateAndPerform(this.checkOutDateInput).click();
-    await this.datePickerModal.waitFor({ state: 'visible' });
-    await this.selectDateInDatePicker(checkOutDateToSelect, `Check-out Date: ${checkOutDate}`);
-    await this.datePickerModal.waitFor({ state: 'hidden' });
+  async typeCheckInCheckOutDatesAndSubmit(checkInDate: string, checkOutDate: string): Promise<void> {
+    await this.checkInDatePicker.typeDate(checkInDate);
+    await this.checkOutDatePicker.typeDate(checkOutDate);
     await validateAndPerform(this.checkAvailabilityButton).click();
   }
 
@@ -192,13 +139,13 @@ export class HomePage {
 
   /**
    * Internal helper to extract details from all room cards on the page.
-   * This method is now simplified as the exact roomId for cleanup is obtained from the detail page.
+   * The `roomId` of each card is read from its "Book now" link, which points to `/reservation/{id}`.
    */
   private async getAllRoomOptionInternalDetails(): Promise<RoomOptionInternalDetails[]> {
     await this.page.waitForLoadState('networkidle');
     await expect(this.roomCardBookButton.first()).toBeVisible(); // Check first button
     const count = await this.roomCardBookButton.count(); // Get total count of room containers
-    console.log(`Found ${count} room cards.`);
+    logger.info(`Found ${count} room cards.`);
     const rooms: RoomOptionInternalDetails[] = [];
 
     if (count === 0) {
@@ -211,12 +158,15 @@ export class HomePage {
       const price = await this.getRoomRateValue(i);
       const bookNowButton = await this.getRoomBookButtonLocator(i);
 
-      const roomId: string | undefined = undefined;
+      const href = (await bookNowButton.getAttribute('href')) ?? '';
+      const roomId = Number(href.match(/\/reservation\/(\d+)/)?.[1]);
 
-      if (price !== null) {
+      if (isNaN(roomId)) {
+        logger.warn(`Room "${type}" has no room ID in its 'BOOK NOW' link ("${href}"). This room will be skipped for selection.`);
+      } else if (price !== null) {
         rooms.push({ type, price, bookNowButton: bookNowButton, roomId: roomId });
       } else {
-        console.warn(`Room "${type}" does not have a visible price or 'BOOK NOW' button. This room will be skipped for selection.`);
+        logger.warn(`Room "${type}" does not have a visible price or 'BOOK NOW' button. This room will be skipped for selection.`);
       }
     }
 
@@ -227,43 +177,59 @@ export class HomePage {
   }
 
   /**
-   * Selects a random available room option and attempts to book it.
+   * Selects a random available room option, from a seed, and attempts to book it.
+   * @param seed The seed for the random pick. A new seed is generated (and recorded) when omitted.
+   * @returns A Promise that resolves to the type, price, and `roomId` of the selected room.
+   */
+
+  async selectRandomRoomOption(seed?: number): Promise<SelectedRoomDetails> {
+    return this.selectRoomOption({ by: 'random', seed });
+  }
+
+  /**
+   * Selects an available room option according to a selection strategy and attempts to book it.
    *
    * This asynchronous method first retrieves details of all available room options.
-   * It then randomly selects one of these rooms, clicks its "Book Now" button,
+   * It then picks one of these rooms with `selectRoomByStrategy` (which records the strategy,
+   * seed and chosen room as a test annotation), clicks its "Book Now" button,
    * waits for the page to navigate and load, and extracts the `roomId` from the
    * resulting reservation URL. If the `roomId` cannot be extracted, an error is thrown.
    * Finally, it returns an object containing the details of the selected room,
    * including its type, price, and the extracted `roomId`.
    *
+   * @param strategy How to choose the room: by ID, type, price range, index, or at random from a seed.
+   * @param activate How to press the room's "Book Now" button. Defaults to a click; the keyboard-only flow
+   * passes a `KeyboardDriver` action instead.
    * @returns A Promise that resolves to a `SelectedRoomDetails` object
-   * containing the type, price, and `roomId` of the randomly selected and booked room.
-   * @throws {Error} If the room ID cannot be extracted from the reservation URL after booking.
+   * containing the type, price, and `roomId` of the selected and booked room.
+   * @throws {Error} If no room matches the strategy, or the room ID cannot be extracted from the reservation URL after booking.
    */
 
-  async selectRandomRoomOption(): Promise<SelectedRoomDetails> {
+  async selectRoomOption(
+    strategy: RoomSelectionStrategy,
+    activate: (bookNowButton: Locator, roomType: string) => Promise<void> = bookNowButton => validateAndPerform(bookNowButton).click()
+  ): Promise<SelectedRoomDetails> {
     const availableRooms = await this.getAllRoomOptionInternalDetails();
-    const randomIndex = Math.floor(Math.random() * availableRooms.length);
-    const selectedRoom = availableRooms[randomIndex];
+    const selectedRoom = selectRoomByStrategy(availableRooms, strategy);
 
     await selectedRoom.bookNowButton.waitFor({ state: 'visible', timeout: 10000 });
     await selectedRoom.bookNowButton.scrollIntoViewIfNeeded();
-    await validateAndPerform(selectedRoom.bookNowButton).click();
+    await activate(selectedRoom.bookNowButton, selectedRoom.type);
     await this.page.waitForLoadState('domcontentloaded');
     const currentUrl = this.page.url();
-    console.log(`Current URL after clicking Book Now: ${currentUrl}`);
+    logger.info(`Current URL after clicking Book Now: ${currentUrl}`);
     const urlMatch = currentUrl.match(/\/reservation\/(\d+)/);
-    console.log(`URL Match result: ${JSON.stringify(urlMatch)}`);
+    logger.info(`URL Match result: ${JSON.stringify(urlMatch)}`);
     let actualRoomId: string;
 
     if (urlMatch && urlMatch[1]) {
       actualRoomId = urlMatch[1];
-      console.log(`Successfully extracted actual Room ID from URL: ${actualRoomId}`);
+      logger.info(`Successfully extracted actual Room ID from URL: ${actualRoomId}`);
     } else {
       throw new Error(`Could not extract Room ID from reservation URL: ${currentUrl}. Expected pattern /reservation/{id}.`);
     }
 
-    console.log(`Randomly selected room: "${selectedRoom.type}" (ID: ${actualRoomId}) with 1-night price: ${selectedRoom.price}`);
+    logger.info(`Selected room: "${selectedRoom.type}" (ID: ${actualRoomId}) with 1-night price: ${selectedRoom.price}`);
 
     return { type: selectedRoom.type, price: selectedRoom.price, roomId: Number(actualRoomId) };
   }
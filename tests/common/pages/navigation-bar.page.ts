@@ -1,8 +1,10 @@
-import { Page, Locator } from '@playwright/test';
+import { Page, expect, Locator } from '@playwright/test';
 
 export class NavigationBarPage {
   readonly page: Page;
   readonly homeLink: Locator;
+  readonly menuToggle: Locator;
+  readonly collapsibleMenu: Locator;
   readonly bookingLink: Locator;
   readonly roomsLink: Locator;
   readonly amenitiesLink: Locator;
@@ -13,6 +15,8 @@ export class NavigationBarPage {
   constructor(page: Page) {
     this.page = page;
     this.homeLink = page.getByRole('link', { name: 'Shady Meadows B&B' });
+    this.menuToggle = page.getByRole('button', { name: 'Toggle navigation' });
+    this.collapsibleMenu = page.locator('#navbarNav');
     this.roomsLink = page.getByRole('link', { name: 'Rooms' }).first();
     this.bookingLink = page.getByRole('link', { name: 'Booking' }).first();
     this.amenitiesLink = page.getByRole('link', { name: 'Amenities' });
@@ -20,4 +24,26 @@ export class NavigationBarPage {
     this.contactLink = page.getByRole('link', { name: 'Contact' }).first();
     this.adminLink = page.getByRole('link', { name: 'Admin' }).first();
   }
+
+  /**
+   * Checks whether the navigation links are collapsed behind the hamburger menu, as they are below the desktop breakpoint.
+   * @returns True if the menu toggle is shown and the menu is closed.
+   */
+  async isMenuCollapsed(): Promise<boolean> {
+    // Until the stylesheet has loaded, the toggle shows on every viewport
+    await this.page.waitForLoadState();
+    return (await this.menuToggle.isVisible()) && (await this.menuToggle.getAttribute('aria-expanded')) !== 'true';
+  }
+
+  /**
+   * Opens the hamburger menu if the navigation links are collapsed behind it. Does nothing on desktop viewports,
+   * where the links are always shown, or when the menu is already open.
+   */
+  async openMenuIfCollapsed(): Promise<void> {
+    if (await this.isMenuCollapsed()) {
+      await this.menuToggle.click();
+      await expect(this.menuToggle).toHaveAttribute('aria-expanded', 'true');
+      await expect(this.collapsibleMenu).toBeVisible();
+    }
+  }
 }
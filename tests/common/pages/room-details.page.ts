@@ -1,7 +1,10 @@
-import { Page, expect, Locator } from '@playwright/test';
+import { Page, Locator } from '@playwright/test';
+import { expect } from '../utils/matchers';
 import { getDigits, calculateNumberOfNights, validateAndPerform } from '../utils/shared-helpers';
-import { SelectedRoomDetails, GuestBookingDetails } from '../utils/types';
-import { CLEANING_FEE, SERVICE_FEE } from '../utils/constants';
+import { SelectedRoomDetails, GuestBookingDetails, DisplayedPricing, FeeSchedule, PriceBreakdown } from '../utils/types';
+import { AvailabilityCalendarComponent } from './availability-calendar.component';
+import { calculateExpectedPriceBreakdown, comparePriceBreakdowns, DEFAULT_FEE_SCHEDULE } from '../utils/pricing';
+import { logger } from '../utils/logger';
 
 export class RoomDetailsPage {
   readonly page: Page;
@@ -24,6 +27,7 @@ export class RoomDetailsPage {
   readonly similarRoomsContainer: Locator;
   readonly priceSummaryCard: Locator;
   readonly calendarBookingsCard: Locator;
+  readonly availabilityCalendar: AvailabilityCalendarComponent;
   readonly selectedRoomDetailsCard: Locator;
   readonly roomPricePerNight: Locator;
   readonly footerContainer: Locator;
@@ -49,11 +53,25 @@ export class RoomDetailsPage {
     this.similarRoomsContainer = page.locator('//*[@class="container"]').nth(2);
     this.priceSummaryCard = page.locator('//*[@class="card bg-light border-0 mb-4"]');
     this.calendarBookingsCard = page.locator('//*[@class="rbc-month-view"]');
+    this.availabilityCalendar = new AvailabilityCalendarComponent(page, page.locator('#availabilityCalendar'));
     this.selectedRoomDetailsCard = page.locator('//*[@class="col-lg-8 mb-4 mb-lg-0"]');
     this.roomPricePerNight = page.locator('//*[@class="fs-2 fw-bold text-primary me-2"]');
     this.footerContainer = page.locator('//*[@class="bg-dark text-white py-5"]');
   }
 
+  /**
+   * Opens the reservation page for a room directly, with the stay dates passed in the URL
+   * as the home page's "Book now" links do.
+   * @param roomId The ID of the room to open.
+   * @param checkInDateStr The check-in date string (e.g., '2025-07-10').
+   * @param checkOutDateStr The check-out date string (e.g., '2025-07-12').
+   */
+  async goToReservationPage(roomId: number, checkInDateStr: string, checkOutDateStr: string): Promise<void> {
+    await this.page.goto(`/reservation/${roomId}?checkin=${checkInDateStr}&checkout=${checkOutDateStr}`);
+    await this.page.waitForLoadState('domcontentloaded');
+    await expect(this.pageTitle).toBeVisible();
+  }
+
   /**
    * Asserts that the room details displayed on the page match the selected room
    * and that the number of nights is correctly displayed from the combined string.
@@ -65,15 +83,14 @@ export class RoomDetailsPage {
     await expect(this.pageTitle).toHaveText(`${expectedRoom.type} Room`);
     await expect(this.breadcrumbRoomType).toHaveText(`${expectedRoom.type} Room`);
 
+    // --- Asserting Daily Rate ---
+    // The first number in the string "£225 x 1 nights" is the daily rate, 225
+    await expect(this.combinedRateAndNightsDisplay).toDisplayPrice(expectedRoom.price);
+    await expect(this.roomPricePerNight).toDisplayPrice(expectedRoom.price);
+
     const combinedText = await this.combinedRateAndNightsDisplay.textContent();
     expect(combinedText).not.toBeNull(); // Ensure text content exists
 
-    // --- Extracting Daily Rate ---
-    // getDigits will find the first number in the string "£225 x 1 nights" which is 225
-    const displayedRate = await getDigits(this.combinedRateAndNightsDisplay);
-    expect(displayedRate).not.toBeNull();
-    expect(displayedRate).toBe(expectedRoom.price);
-
     // --- Extracting Number of Nights using split and direct parsing ---
     const extractedNightsPart = combinedText?.split('x')[1]; // This gives " 1 nights" (or similar, or undefined)
     const displayedNights = extractedNightsPart ? Number(extractedNightsPart.match(/\d+/)?.[0]) : null;
@@ -87,50 +104,114 @@ export class RoomDetailsPage {
     // Assert the extracted number of nights matches the calculated number of nights
     expect(displayedNights).toBe(expectedNights);
 
-    console.info(
-      `Room details asserted for "${expectedRoom.type}", daily rate: ${displayedRate}, and ${displayedNights} nights confirmed.`
+    logger.info(
+      `Room details asserted for "${expectedRoom.type}", daily rate: ${expectedRoom.price}, and ${displayedNights} nights confirmed.`
     );
   }
 
   /**
-   * Asserts the total price calculation displayed on the page against an expected value
-   * and then proceeds by clicking the "Reserve Now" button.
+   * Reads every line of the price summary card: "£rate x n nights" with its charge, the cleaning fee,
+   * the service fee and the total. Lines are matched by their labels, so their order does not matter.
+   * @returns The displayed price breakdown.
+   * @throws Error if a line is missing from the summary or its amount cannot be read.
+   */
+  async readPriceBreakdown(): Promise<PriceBreakdown> {
+    const rows = await this.priceSummaryCard.locator('.d-flex.justify-content-between').all();
+    const lines = await Promise.all(
+      rows.map(async row => ({
+        label: ((await row.locator('span').first().textContent()) ?? '').trim(),
+        amount: await getDigits(row.locator('span').last()),
+      }))
+    );
+    const amountOf = (line: string, pattern: RegExp) => {
+      const amount = lines.find(({ label }) => pattern.test(label))?.amount;
+      if (amount === null || amount === undefined) {
+        throw new Error(`Could not read the "${line}" line of the price summary. Lines found: ${JSON.stringify(lines)}`);
+      }
+      return amount;
+    };
+
+    const nightlyLabel = lines.find(({ label }) => /x\s*\d+\s*nights?/i.test(label))?.label ?? '';
+    const [nightlyRate, nights] = [nightlyLabel.match(/£\s*(\d+)/)?.[1], nightlyLabel.match(/x\s*(\d+)/)?.[1]].map(Number);
+    if (isNaN(nightlyRate) || isNaN(nights)) {
+      throw new Error(`Could not read the nightly rate and nights from the price summary line "${nightlyLabel}".`);
+    }
+
+    return {
+      nightlyRate,
+      nights,
+      nightlyCharge: amountOf('Nightly charge', /x\s*\d+\s*nights?/i),
+      cleaningFee: amountOf('Cleaning fee', /^cleaning fee$/i),
+      serviceFee: amountOf('Service fee', /^service fee$/i),
+      total: amountOf('Total', /^total$/i),
+    };
+  }
+
+  /**
+   * Reads the price summary shown for the stay.
+   * @returns The nightly rate and number of nights from the "£rate x n nights" line, and the total price.
+   * @throws Error if any of the values is missing from the summary.
+   */
+  async getDisplayedPricing(): Promise<DisplayedPricing> {
+    const { nightlyRate, nights, total } = await this.readPriceBreakdown();
+    return { nightlyRate, nights, totalPrice: total };
+  }
+
+  /**
+   * Asserts every line of the price summary against the expected itemised price and then proceeds
+   * by clicking the "Reserve Now" button.
    *
-   * This asynchronous method calculates the expected total price based on the daily rate,
-   * the number of nights between the check-in and check-out dates, and predefined
-   * cleaning and service fees. It then retrieves the displayed total price from the UI,
-   * asserts that it matches the expected calculation, and finally clicks the
-   * "Reserve Now" button to proceed with the reservation.
+   * The expected nightly charge, cleaning fee, service fee and total are calculated by
+   * `calculateExpectedPriceBreakdown` from the room's rate, the number of nights between the
+   * check-in and check-out dates, and the fee schedule (including any per-room fee rules).
+   * If any line differs, the assertion fails with a message naming each line item that is off.
    *
-   * @param dailyRate The daily rate of the room.
+   * @param room The room selected for the stay, including its nightly rate.
    * @param checkInDateStr The check-in date in 'YYYY-MM-DD' format.
    * @param checkOutDateStr The check-out date in 'YYYY-MM-DD' format.
+   * @param feeSchedule The fee schedule to expect. Defaults to `DEFAULT_FEE_SCHEDULE`.
    * @returns A Promise that resolves once the assertion is complete and the
    * "Reserve Now" button has been clicked.
    */
 
-  async assertTotalPriceCalculationAndProceed(dailyRate: number, checkInDateStr: string, checkOutDateStr: string): Promise<void> {
-    const expectedNights = calculateNumberOfNights(checkInDateStr, checkOutDateStr);
-
-    // Calculate base room cost
-    const baseRoomCost = dailyRate * expectedNights;
-
-    // Add fixed fees to the expected total price
-    const expectedTotalPrice = baseRoomCost + CLEANING_FEE + SERVICE_FEE;
-
-    console.log(`Expected total price: £${expectedTotalPrice}`);
-
-    const displayedTotalPrice = await getDigits(this.totalPriceDisplay);
-    expect(displayedTotalPrice).not.toBeNull();
-    expect(displayedTotalPrice).toBe(expectedTotalPrice);
+  async assertTotalPriceCalculationAndProceed(
+    room: SelectedRoomDetails,
+    checkInDateStr: string,
+    checkOutDateStr: string,
+    feeSchedule: FeeSchedule = DEFAULT_FEE_SCHEDULE
+  ): Promise<void> {
+    await this.assertTotalPriceCalculation(room, checkInDateStr, checkOutDateStr, feeSchedule);
+    await validateAndPerform(this.reserveNowButton).click();
+  }
 
-    console.info(`Total price calculation asserted:
-      Base room cost: £${baseRoomCost}
-      Cleaning fee: £${CLEANING_FEE}
-      Service fee: £${SERVICE_FEE}
-      Expected total: £${expectedTotalPrice}, Displayed total: £${displayedTotalPrice}.`);
+  /**
+   * Asserts the price summary line by line, as `assertTotalPriceCalculationAndProceed` does, without
+   * pressing "Reserve Now", so the caller can proceed another way (e.g. with the keyboard).
+   *
+   * @param room The room selected for the stay, including its nightly rate.
+   * @param checkInDateStr The check-in date in 'YYYY-MM-DD' format.
+   * @param checkOutDateStr The check-out date in 'YYYY-MM-DD' format.
+   * @param feeSchedule The fee schedule to expect. Defaults to `DEFAULT_FEE_SCHEDULE`.
+   */
 
-    await validateAndPerform(this.reserveNowButton).click();
+  async assertTotalPriceCalculation(
+    room: SelectedRoomDetails,
+    checkInDateStr: string,
+    checkOutDateStr: string,
+    feeSchedule: FeeSchedule = DEFAULT_FEE_SCHEDULE
+  ): Promise<void> {
+    const expectedBreakdown = calculateExpectedPriceBreakdown(room, checkInDateStr, checkOutDateStr, feeSchedule);
+    logger.info(`Expected total price: £${expectedBreakdown.total}`);
+
+    const displayedBreakdown = await this.readPriceBreakdown();
+    const mismatches = comparePriceBreakdowns(expectedBreakdown, displayedBreakdown);
+    expect(mismatches, `Price summary for "${room.type}" differs from the fee schedule:\n  ${mismatches.join('\n  ')}`).toEqual([]);
+
+    logger.info(`Total price calculation asserted:
+      Nightly charge: £${expectedBreakdown.nightlyRate} x ${expectedBreakdown.nights} nights = £${expectedBreakdown.nightlyCharge}
+      Cleaning fee: £${expectedBreakdown.cleaningFee}
+      Service fee: £${expectedBreakdown.serviceFee}
+      Expected total: £${expectedBreakdown.total}, Displayed total: £${displayedBreakdown.total}.`);
   }
 
   /**
@@ -156,8 +237,7 @@ export class RoomDetailsPage {
 
   async verifyBookingSuccess(details: Partial<GuestBookingDetails>): Promise<void> {
     await expect(this.bookingConfirmedTitle).toBeVisible();
-    const expectedDateString = `${details.checkInDate} - ${details.checkOutDate}`;
-    await expect(this.displayedBookingDates).toHaveText(expectedDateString);
-    console.info(`Booking successfully verified for dates: ${expectedDateString}`);
+    await expect(this.displayedBookingDates).toShowBookingDates({ checkin: details.checkInDate!, checkout: details.checkOutDate! });
+    logger.info(`Booking successfully verified for dates: ${details.checkInDate} - ${details.checkOutDate}`);
   }
 }
@@ -0,0 +1,158 @@
+/**
+ * @file This file provides the automated accessibility audit used by the `auditAccessibility` fixture
+ * (`../fixtures/accessibility-fixture`).
+ *
+ * The audit runs axe-core's WCAG 2.1 A and AA rules (`ACCESSIBILITY_WCAG_TAGS`) on the current page and
+ * reports one violation per failing element. Violations are matched against a reviewed baseline by rule and
+ * element selector, so a page with known issues only fails when a new violation appears, and baseline
+ * entries that no longer occur are listed as resolved so they can be removed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import AxeBuilder from '@axe-core/playwright';
+import { Page } from '@playwright/test';
+import { ACCESSIBILITY_WCAG_TAGS } from './constants';
+import { AccessibilityAuditOptions, AccessibilityBaselineEntry, AccessibilityViolation } from './types';
+
+/**
+ * Runs the WCAG audit on the current page.
+ * @param page The Playwright Page object, already showing the state to audit.
+ * @param options Optional CSS selectors to limit the audit to, or to leave out of it.
+ * @returns One violation per failing element and rule, sorted by rule and selector.
+ */
+export async function runAccessibilityAudit(page: Page, options: AccessibilityAuditOptions = {}): Promise<AccessibilityViolation[]> {
+  const builder = new AxeBuilder({ page }).withTags(ACCESSIBILITY_WCAG_TAGS);
+  for (const selector of options.include ?? []) {
+    builder.include(selector);
+  }
+  for (const selector of options.exclude ?? []) {
+    builder.exclude(selector);
+  }
+
+  const results = await builder.analyze();
+  return results.violations
+    .flatMap(violation =>
+      violation.nodes.map(node => ({
+        rule: violation.id,
+        impact: violation.impact ?? 'unknown',
+        help: violation.help,
+        helpUrl: violation.helpUrl,
+        // Selectors inside frames or shadow roots come as nested lists; join them into one readable selector
+        target: node.target.flat().join(' '),
+        html: node.html,
+      }))
+    )
+    .sort((first, second) => violationKey(first).localeCompare(violationKey(second)));
+}
+
+/**
+ * Identifies a violation or baseline entry by its rule and element selector.
+ */
+function violationKey(entry: { rule: string; target: string }): string {
+  return `${entry.rule} ${entry.target}`;
+}
+
+/**
+ * Reads a baseline file. A page without known violations has a committed baseline of `[]`.
+ * @param baselinePath The path of the baseline JSON file.
+ * @returns The known violations, or `undefined` if the page has no baseline file yet.
+ */
+export function readAccessibilityBaseline(baselinePath: string): AccessibilityBaselineEntry[] | undefined {
+  if (!fs.existsSync(baselinePath)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as AccessibilityBaselineEntry[];
+}
+
+/**
+ * Writes the current violations as the page's new baseline, keeping the review reason of entries that still occur.
+ * The file is meant to be reviewed and committed like a visual baseline.
+ * @param baselinePath The path of the baseline JSON file.
+ * @param violations The violations found by the audit.
+ * @param previousBaseline The baseline being replaced.
+ */
+export function writeAccessibilityBaseline(
+  baselinePath: string,
+  violations: AccessibilityViolation[],
+  previousBaseline: AccessibilityBaselineEntry[]
+): void {
+  const reasons = new Map(previousBaseline.map(entry => [violationKey(entry), entry.reason]));
+  const entries: AccessibilityBaselineEntry[] = violations.map(violation => ({
+    rule: violation.rule,
+    target: violation.target,
+    ...(reasons.get(violationKey(violation)) ? { reason: reasons.get(violationKey(violation)) } : {}),
+  }));
+
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+  fs.writeFileSync(baselinePath, `${JSON.stringify(entries, null, 2)}\n`);
+}
+
+/**
+ * Splits the audit's violations into new and known ones, and finds the baseline entries that no longer occur.
+ * @param violations The violations found by the audit.
+ * @param baseline The page's reviewed baseline.
+ */
+export function compareWithBaseline(
+  violations: AccessibilityViolation[],
+  baseline: AccessibilityBaselineEntry[]
+): { newViolations: AccessibilityViolation[]; knownViolations: AccessibilityViolation[]; resolved: AccessibilityBaselineEntry[] } {
+  const baselineKeys = new Set(baseline.map(violationKey));
+  const violationKeys = new Set(violations.map(violationKey));
+  return {
+    newViolations: violations.filter(violation => !baselineKeys.has(violationKey(violation))),
+    knownViolations: violations.filter(violation => baselineKeys.has(violationKey(violation))),
+    resolved: baseline.filter(entry => !violationKeys.has(violationKey(entry))),
+  };
+}
+
+/**
+ * Formats a violation as a one-line summary, e.g. `[serious] color-contrast at .btn-primary`.
+ */
+export function describeViolation(violation: AccessibilityViolation): string {
+  return `[${violation.impact}] ${violation.rule} at ${violation.target}`;
+}
+
+/**
+ * Builds the plain-text audit report attached to the test.
+ * @param pageName The audited page, as named in the baseline file.
+ * @param baselinePath The path of the page's baseline file.
+ * @param comparison The result of `compareWithBaseline`.
+ */
+export function formatAccessibilityReport(
+  pageName: string,
+  baselinePath: string,
+  comparison: ReturnType<typeof compareWithBaseline>
+): string {
+  const section = (title: string, violations: AccessibilityViolation[]) =>
+    violations.length === 0
+      ? []
+      : [
+          `${title} (${violations.length}):`,
+          ...violations.flatMap(violation => [
+            `  ${describeViolation(violation)}`,
+            `    ${violation.help}`,
+            `    ${violation.html}`,
+            `    ${violation.helpUrl}`,
+          ]),
+          '',
+        ];
+
+  return [
+    `Accessibility audit of ${pageName} (${ACCESSIBILITY_WCAG_TAGS.join(', ')})`,
+    `Baseline: ${path.relative(process.cwd(), baselinePath)}`,
+    '',
+    ...section('New violations', comparison.newViolations),
+    ...section('Known violations from the baseline', comparison.knownViolations),
+    ...(comparison.resolved.length === 0
+      ? []
+      : [
+          `Resolved, remove from the baseline (${comparison.resolved.length}):`,
+          ...comparison.resolved.map(entry => `  ${entry.rule} at ${entry.target}`),
+          '',
+        ]),
+    comparison.newViolations.length + comparison.knownViolations.length === 0 ? 'No violations found.' : '',
+  ]
+    .join('\n')
+    .trim();
+}
@@ -1,34 +1,213 @@
 /**
  * @file This file provides a comprehensive API client for interacting with a booking service.
- * It includes a `BookingAPI` class to handle authentication and direct booking operations
- * (retrieval and deletion), as well as utility functions (`findBookingIdByGuestDetails` and
- * `cleanupBooking`) to facilitate finding and cleaning up specific test bookings.
+ * It includes an `AuthApiClient` class for the auth microservice (login, token validation and logout),
+ * a `BookingAPI` class to handle authentication and direct booking operations
+ * (creation, retrieval, full and partial updates, deletion and the admin report), a `RoomAPI` class
+ * for managing rooms, a `MessageAPI` class for the contact messages inbox, a `BrandingAPI` class for
+ * the B&B branding, the `AuthenticatedApiClient` base those four share for logging in and sending the
+ * admin token, an `AdminApiClient` class that shares one admin token across those clients,
+ * as well as utility functions
+ * (`findBookingIdByGuestDetails`, `cleanupBooking`, `findMessageByEnquiryDetails` and `cleanupEnquiry`)
+ * to facilitate finding and cleaning up specific test bookings and enquiries.
+ * Every room, booking and message created through these clients is also reported to the running
+ * test's `ResourceRegistry` (`./resource-registry`), which deletes it when the test ends.
  * This ensures that automated tests can effectively manage test data by creating,
  * verifying, and then removing bookings via the API.
  */
 
 import { APIRequestContext, APIResponse, expect } from '@playwright/test';
-import { AuthResponse, Booking, GuestBookingDetails } from './types';
-import { AdminCredentials, BookingEndpoints, BASE_API_URL } from './constants';
+import {
+  AuthResponse,
+  Booking,
+  BookingDates,
+  BookingDetails,
+  BookingDetailsUpdate,
+  BrandingDetails,
+  EnquiryDetails,
+  GuestBookingDetails,
+  LoginCredentials,
+  Message,
+  MessageSummary,
+  ReportEntry,
+  Room,
+  RoomDetails,
+} from './types';
+import { BookingEndpoints, SHORT_TOKEN_TTL_MS, STUB_TOKEN_TTL_HEADER } from './constants';
+import { ENVIRONMENT } from './environment';
+import { trackCreatedResource } from './resource-registry';
 import { base } from '@faker-js/faker';
+import { logger } from './logger';
 
-export class BookingAPI {
+export class AuthApiClient {
   private requestContext: APIRequestContext;
-  private authToken: string | undefined;
+  public authToken: string | undefined;
 
-  constructor(requestContext: APIRequestContext) {
+  constructor(requestContext: APIRequestContext, authToken?: string) {
     this.requestContext = requestContext;
+    this.authToken = authToken;
+  }
+
+  /**
+   * Sends a login request with the given credentials and returns the raw response, without asserting on it.
+   * Omitted fields are left out of the request body, which makes this suitable for negative tests.
+   * A successful login also stores the returned token on the client.
+   * @param credentials The username and/or password to send.
+   * @returns The raw API response.
+   */
+  async login(credentials: LoginCredentials): Promise<APIResponse> {
+    const response = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.Login}`, {
+      data: credentials,
+    });
+    await this.storeTokenIfPresent(response);
+    return response;
+  }
+
+  /**
+   * Sends a login request with a raw, unparsed body. Used to check how the API handles malformed JSON.
+   * @param body The exact request body to send.
+   * @returns The raw API response.
+   */
+  async loginWithRawBody(body: string): Promise<APIResponse> {
+    const response = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.Login}`, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      data: body,
+    });
+    await this.storeTokenIfPresent(response);
+    return response;
+  }
+
+  /**
+   * Logs in with the admin credentials and asserts that a token is returned.
+   * @returns The authentication token.
+   * @throws Error if the login does not succeed.
+   */
+  async loginAsAdmin(): Promise<string> {
+    const response = await this.login({ username: ENVIRONMENT.adminCredentials.username, password: ENVIRONMENT.adminCredentials.password });
+    expect(response.ok(), `Admin login failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    expect(this.authToken, 'Admin login succeeded but no token was returned').toBeTruthy();
+    return this.authToken!;
+  }
+
+  /**
+   * Asks the auth service whether a token is still valid.
+   * @param token The token to validate. Defaults to the token from the last successful login.
+   * @returns The raw API response: 200 for a valid token, 403 otherwise.
+   */
+  async validateToken(token: string | undefined = this.authToken): Promise<APIResponse> {
+    return this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.ValidateToken}`, {
+      data: { token },
+    });
+  }
+
+  /**
+   * Ends the session for a token. If it is the client's own token, the stored token is cleared.
+   * @param token The token to invalidate. Defaults to the token from the last successful login.
+   * @returns The raw API response.
+   */
+  async logout(token: string | undefined = this.authToken): Promise<APIResponse> {
+    const response = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.Logout}`, {
+      data: { token },
+    });
+    if (token === this.authToken) {
+      this.authToken = undefined;
+    }
+    return response;
+  }
+
+  /**
+   * Produces a token the auth service has issued but no longer accepts, by logging in and then logging out.
+   * The token is revoked rather than expired; `createExpiredToken` covers the session lifetime.
+   * The client's own stored token is left untouched.
+   * @returns A token that was valid and has since been logged out.
+   */
+  async createLoggedOutToken(): Promise<string> {
+    const sessionClient = new AuthApiClient(this.requestContext);
+    const token = await sessionClient.loginAsAdmin();
+    const response = await sessionClient.logout(token);
+    expect(response.ok(), `Logout failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    return token;
+  }
+
+  /**
+   * Produces a token that expired on its own, by logging in for a short lifetime and waiting it out.
+   * The lifetime is requested through the stub server's `STUB_TOKEN_TTL_HEADER`, so this only works against the stub.
+   * The client's own stored token is left untouched.
+   * @param ttlMs The lifetime to ask for. Defaults to `SHORT_TOKEN_TTL_MS`.
+   * @returns A token that was valid and has since expired.
+   */
+  async createExpiredToken(ttlMs: number = SHORT_TOKEN_TTL_MS): Promise<string> {
+    const response = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.Login}`, {
+      headers: { [STUB_TOKEN_TTL_HEADER]: String(ttlMs) },
+      data: { username: ENVIRONMENT.adminCredentials.username, password: ENVIRONMENT.adminCredentials.password },
+    });
+    expect(response.ok(), `Admin login failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    const { token }: AuthResponse = await response.json();
+
+    await new Promise(resolve => setTimeout(resolve, ttlMs + 100));
+    return token;
+  }
+
+  private async storeTokenIfPresent(response: APIResponse): Promise<void> {
+    if (!response.ok()) {
+      return;
+    }
+    const body: Partial<AuthResponse> = await response.json();
+    if (body.token) {
+      this.authToken = body.token;
+    }
+  }
+}
+
+/**
+ * Produces a tampered copy of a valid token by changing its last character,
+ * keeping the same length and character set so only the signature/value differs.
+ * @param token The valid token to tamper with.
+ * @returns A token that differs from the original by exactly one character.
+ */
+export function createTamperedToken(token: string): string {
+  const lastCharacter = token.slice(-1);
+  const replacement = lastCharacter === 'a' ? 'b' : 'a';
+  return `${token.slice(0, -1)}${replacement}`;
+}
+
+/**
+ * The shared base of the admin API clients: holds the admin token, logs in to obtain one, and builds the
+ * headers of authenticated requests. Endpoints that do not need a token can be called without logging in.
+ */
+export abstract class AuthenticatedApiClient {
+  protected requestContext: APIRequestContext;
+  protected authToken: string | undefined;
+
+  /**
+   * @param requestContext The Playwright `APIRequestContext` used for making API calls.
+   * @param authToken An existing admin token, for example from the worker's admin session. When omitted, call `login` first.
+   */
+  constructor(requestContext: APIRequestContext, authToken?: string) {
+    this.requestContext = requestContext;
+    this.authToken = authToken;
+  }
+
+  /**
+   * Whether the client holds an authentication token, either passed in or obtained through `login`.
+   */
+  get isAuthenticated(): boolean {
+    return !!this.authToken;
   }
 
   /**
    * Attempts to log in with the provided credentials.
-   * @param username The username for login. Defaults to AdminCredentials.Username.
-   * @param password The password for login. Defaults to AdminCredentials.Password.
+   * @param username The username for login. Defaults to ENVIRONMENT.adminCredentials.username.
+   * @param password The password for login. Defaults to ENVIRONMENT.adminCredentials.password.
    * @returns The authentication token if successful, otherwise undefined.
    */
-  async login(username = AdminCredentials.Username, password = AdminCredentials.Password): Promise<string | undefined> {
-    console.log(`Attempting to login as ${username}...`);
-    const response = await this.requestContext.post(`${BASE_API_URL}${BookingEndpoints.Login}`, {
+  async login(
+    username = ENVIRONMENT.adminCredentials.username,
+    password = ENVIRONMENT.adminCredentials.password
+  ): Promise<string | undefined> {
+    logger.debug(`Attempting to login as ${username}...`);
+    const response = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.Login}`, {
       data: {
         username: username,
         password: password,
@@ -38,7 +217,7 @@ export class BookingAPI {
     // Assert that the response is OK (status 2xx)
     // For positive test cases, we expect OK. For negative, we'll assert specific error statuses.
     if (!response.ok()) {
-      console.log(`Login attempt failed with status ${response.status()}: ${await response.text()}`);
+      logger.warn(`Login attempt failed with status ${response.status()}: ${await response.text()}`);
       return undefined;
     }
 
@@ -49,13 +228,129 @@ export class BookingAPI {
 
     this.authToken = authResponseBody.token;
     if (this.authToken) {
-      console.log(`Successfully logged in. Token: ${this.authToken.substring(0, 5)}...`);
+      logger.info('Successfully logged in.');
     } else {
-      console.log('Successfully logged in, but token is undefined.');
+      logger.warn('Successfully logged in, but token is undefined.');
     }
     return this.authToken;
   }
 
+  /**
+   * Builds the headers for an authenticated request, passing the stored token in the `Cookie` header.
+   * @param action A short description of the operation, used in the error message.
+   * @returns The headers to send with the request.
+   * @throws Error if no authentication token is available.
+   */
+  protected authHeaders(action: string): Record<string, string> {
+    if (!this.authToken) {
+      throw new Error(`Cannot ${action}: No authentication token available. Please login first.`);
+    }
+    return { Cookie: `token=${this.authToken}` };
+  }
+}
+
+export class BookingAPI extends AuthenticatedApiClient {
+  /**
+   * Creates a new booking directly through the API, bypassing the UI reservation flow.
+   * @param details The booking to create, including the room ID and the stay dates.
+   * @returns The created booking, including the `bookingid` assigned by the API.
+   * @throws Error if the API does not return 201 Created.
+   */
+  async createBooking(details: BookingDetails): Promise<Booking> {
+    logger.debug(`Attempting to create booking for ${details.firstname} ${details.lastname} in room ID: ${details.roomid}...`);
+    const response: APIResponse = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BookingBasePath}`, {
+      data: details,
+    });
+
+    expect(response.status(), `Create booking failed with status ${response.status()}: ${await response.text()}`).toBe(201);
+
+    const booking: Booking = await response.json();
+    expect(booking).toHaveProperty('bookingid');
+    trackCreatedResource('booking', booking.bookingid);
+    logger.info(`Successfully created booking ID: ${booking.bookingid}`);
+    return booking;
+  }
+
+  /**
+   * Sends a booking request and returns the raw response, for tests that expect the booking to be refused.
+   * A booking that is created anyway is still tracked for cleanup.
+   * @param details The booking to request.
+   * @returns The raw API response.
+   */
+  async submitBooking(details: BookingDetails): Promise<APIResponse> {
+    logger.info(
+      `Submitting booking for room ID: ${details.roomid} from ${details.bookingdates.checkin} to ${details.bookingdates.checkout}...`
+    );
+    const response: APIResponse = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BookingBasePath}`, {
+      data: details,
+    });
+
+    if (response.status() === 201) {
+      trackCreatedResource('booking', (await response.json()).bookingid);
+    }
+    logger.info(`Booking request returned status ${response.status()}`);
+    return response;
+  }
+
+  /**
+   * Retrieves a single booking by its ID. Requires authentication.
+   * @param bookingId The ID of the booking to retrieve.
+   * @returns The booking details.
+   * @throws Error if no auth token is available or the booking cannot be retrieved.
+   */
+  async getBookingById(bookingId: number): Promise<Booking> {
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BookingBasePath}${bookingId}`, {
+      headers: this.authHeaders('get booking'),
+    });
+
+    expect(response.ok(), `Get booking ID ${bookingId} failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+
+    return response.json();
+  }
+
+  /**
+   * Replaces every field of an existing booking. Requires authentication.
+   * @param bookingId The ID of the booking to update.
+   * @param details The complete set of booking details to store.
+   * @returns The booking as stored after the update.
+   * @throws Error if no auth token is available or the update fails.
+   */
+  async updateBooking(bookingId: number, details: BookingDetails): Promise<Booking> {
+    const response: APIResponse = await this.requestContext.put(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BookingBasePath}${bookingId}`, {
+      headers: this.authHeaders('update booking'),
+      data: details,
+    });
+
+    expect(
+      response.ok(),
+      `Update failed for booking ID ${bookingId} with status ${response.status()}: ${await response.text()}`
+    ).toBeTruthy();
+    logger.info(`Successfully updated booking ID: ${bookingId}`);
+    return response.json();
+  }
+
+  /**
+   * Updates only the supplied fields of an existing booking, for example just the stay dates.
+   * Requires authentication.
+   * @param bookingId The ID of the booking to update.
+   * @param changes The fields to change. Omitted fields, including omitted booking dates, keep their current values.
+   * @returns The booking as stored after the update.
+   * @throws Error if no auth token is available or the update fails.
+   */
+  async partialUpdateBooking(bookingId: number, changes: BookingDetailsUpdate): Promise<Booking> {
+    const response: APIResponse = await this.requestContext.patch(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BookingBasePath}${bookingId}`, {
+      headers: this.authHeaders('partially update booking'),
+      data: changes,
+    });
+
+    expect(
+      response.ok(),
+      `Partial update failed for booking ID ${bookingId} with status ${response.status()}: ${await response.text()}`
+    ).toBeTruthy();
+    logger.info(`Successfully applied partial update to booking ID: ${bookingId}`);
+    return response.json();
+  }
+
   /**
    * Retrieves bookings for a specific room from the API.
    * This is used to find a newly created booking if its ID isn't directly exposed by the UI.
@@ -64,20 +359,14 @@ export class BookingAPI {
    * @throws Error if retrieval fails or no authentication token is available.
    */
   async getBookingsByRoomId(roomId: number): Promise<Booking[]> {
-    console.log(`Attempting to get bookings for room ID: ${roomId}...`);
-    // Ensure authToken is available for this authenticated endpoint
-    if (!this.authToken) {
-      throw new Error('Cannot get bookings by room ID: No authentication token available. Please login first.');
-    }
+    logger.debug(`Attempting to get bookings for room ID: ${roomId}...`);
+    // Ensure authToken is available for this authenticated endpoint, then pass it in the Cookie header
+    const headers = this.authHeaders('get bookings by room ID');
 
     // Construct the URL with the required roomid query parameter
     const response: APIResponse = await this.requestContext.get(
-      `${BASE_API_URL}${BookingEndpoints.BookingBasePath}${BookingEndpoints.RoomIdQueryParam}${roomId}`,
-      {
-        headers: {
-          Cookie: `token=${this.authToken}`, // Pass the authentication token in the Cookie header
-        },
-      }
+      `${ENVIRONMENT.apiUrl}${BookingEndpoints.BookingBasePath}${BookingEndpoints.RoomIdQueryParam}${roomId}`,
+      { headers }
     );
 
     expect(
@@ -90,7 +379,7 @@ export class BookingAPI {
     // Check if responseBody has a 'bookings' property and it's an array
     if (responseBody && Array.isArray(responseBody.bookings)) {
       const bookings: Booking[] = responseBody.bookings;
-      console.log(`Successfully retrieved ${bookings.length} bookings for room ID: ${roomId}.`);
+      logger.info(`Successfully retrieved ${bookings.length} bookings for room ID: ${roomId}.`);
       return bookings;
     } else {
       // If 'bookings' property is missing or not an array, throw a more specific error
@@ -100,21 +389,34 @@ export class BookingAPI {
     }
   }
 
+  /**
+   * Retrieves the admin booking report: one entry per booking, titled with the guest's name and room,
+   * as shown on the admin report calendar. Requires authentication.
+   * @returns The report entries.
+   */
+  async getReport(): Promise<ReportEntry[]> {
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.ReportBasePath}`, {
+      headers: this.authHeaders('get booking report'),
+    });
+
+    expect(response.ok(), `Get booking report failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+
+    const responseBody = await response.json();
+    if (!Array.isArray(responseBody?.report)) {
+      throw new Error(`API response did not contain a 'report' array as expected. Response: ${JSON.stringify(responseBody)}`);
+    }
+    return responseBody.report;
+  }
+
   /**
    * Deletes a specific booking. Requires authentication.
    * @param bookingId The ID of the booking to delete.
    * @throws Error if no auth token is available or deletion fails.
    */
-  async deleteBooking(bookingId: string): Promise<void> {
-    if (!this.authToken) {
-      throw new Error('Cannot delete booking: No authentication token available. Please login first.');
-    }
-
+  async deleteBooking(bookingId: number): Promise<void> {
     // Use the generic base path and append the ID
-    const response: APIResponse = await this.requestContext.delete(`${BASE_API_URL}${BookingEndpoints.BookingBasePath}${bookingId}`, {
-      headers: {
-        Cookie: `token=${this.authToken}`, // Use the stored token in the Cookie header
-      },
+    const response: APIResponse = await this.requestContext.delete(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BookingBasePath}${bookingId}`, {
+      headers: this.authHeaders('delete booking'),
     });
 
     // restful-booker returns 200 Created for successful deletion
@@ -122,7 +424,255 @@ export class BookingAPI {
       response.status(),
       `Deletion failed for booking ID ${bookingId} with status ${response.status()}: ${await response.text()}`
     ).toBe(200);
-    console.log(`Successfully deleted booking ID: ${bookingId}`);
+    logger.info(`Successfully deleted booking ID: ${bookingId}`);
+  }
+}
+
+export class RoomAPI extends AuthenticatedApiClient {
+  /**
+   * Lists rooms. When stay dates are given, only rooms that are free for the whole stay are returned.
+   * @param stayDates Optional check-in and check-out dates to filter by availability.
+   * @returns The matching rooms.
+   */
+  async getRooms(stayDates?: BookingDates): Promise<Room[]> {
+    const query = stayDates ? `?checkin=${stayDates.checkin}&checkout=${stayDates.checkout}` : '';
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.RoomBasePath}${query}`);
+
+    expect(response.ok(), `Get rooms failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+
+    const responseBody = await response.json();
+    if (!Array.isArray(responseBody?.rooms)) {
+      throw new Error(`API response did not contain a 'rooms' array as expected. Response: ${JSON.stringify(responseBody)}`);
+    }
+    return responseBody.rooms;
+  }
+
+  /**
+   * Retrieves a single room by its ID.
+   * @param roomId The ID of the room to retrieve.
+   * @returns The room details.
+   * @throws Error if the room cannot be retrieved.
+   */
+  async getRoomById(roomId: number): Promise<Room> {
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.RoomBasePath}${roomId}`);
+
+    expect(response.ok(), `Get room ID ${roomId} failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    return response.json();
+  }
+
+  /**
+   * Creates a room. Requires authentication.
+   * @param details The room to create.
+   * @returns The created room, including the `roomid` assigned by the API.
+   * @throws Error if no auth token is available or the API does not return 201 Created.
+   */
+  async createRoom(details: RoomDetails): Promise<Room> {
+    logger.debug(`Attempting to create ${details.type} room "${details.roomName}" at £${details.roomPrice} per night...`);
+    const response: APIResponse = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.RoomBasePath}`, {
+      headers: this.authHeaders('create room'),
+      data: details,
+    });
+
+    expect(response.status(), `Create room failed with status ${response.status()}: ${await response.text()}`).toBe(201);
+
+    const room: Room = await response.json();
+    trackCreatedResource('room', room.roomid);
+    logger.info(`Successfully created room ID: ${room.roomid}`);
+    return room;
+  }
+
+  /**
+   * Replaces the details of an existing room. Requires authentication.
+   * @param roomId The ID of the room to update.
+   * @param details The complete set of room details to store.
+   * @returns The room as stored after the update.
+   * @throws Error if no auth token is available or the update fails.
+   */
+  async updateRoom(roomId: number, details: RoomDetails): Promise<Room> {
+    const response: APIResponse = await this.requestContext.put(`${ENVIRONMENT.apiUrl}${BookingEndpoints.RoomBasePath}${roomId}`, {
+      headers: this.authHeaders('update room'),
+      data: details,
+    });
+
+    expect(response.ok(), `Update failed for room ID ${roomId} with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    logger.info(`Successfully updated room ID: ${roomId}`);
+    return response.json();
+  }
+
+  /**
+   * Deletes a room, along with any bookings made for it. Requires authentication.
+   * @param roomId The ID of the room to delete.
+   * @throws Error if no auth token is available or deletion fails.
+   */
+  async deleteRoom(roomId: number): Promise<void> {
+    const response: APIResponse = await this.requestContext.delete(`${ENVIRONMENT.apiUrl}${BookingEndpoints.RoomBasePath}${roomId}`, {
+      headers: this.authHeaders('delete room'),
+    });
+
+    expect(response.status(), `Deletion failed for room ID ${roomId} with status ${response.status()}: ${await response.text()}`).toBe(200);
+    logger.info(`Successfully deleted room ID: ${roomId}`);
+  }
+}
+
+export class MessageAPI extends AuthenticatedApiClient {
+  /**
+   * Submits an enquiry directly through the API, as the contact form on the home page does.
+   * @param details The enquiry to submit. `message` is sent as the API's `description` field.
+   * @returns The stored message, including the `messageid` assigned by the API.
+   * @throws Error if the API does not return 201 Created.
+   */
+  async createMessage(details: EnquiryDetails): Promise<Message> {
+    const response: APIResponse = await this.requestContext.post(`${ENVIRONMENT.apiUrl}${BookingEndpoints.MessageBasePath}`, {
+      data: {
+        name: details.name,
+        email: details.email,
+        phone: details.phone,
+        subject: details.subject,
+        description: details.message,
+      },
+    });
+
+    expect(response.status(), `Create message failed with status ${response.status()}: ${await response.text()}`).toBe(201);
+
+    const message: Message = await response.json();
+    trackCreatedResource('message', message.messageid);
+    logger.info(`Successfully created message ID: ${message.messageid}`);
+    return message;
+  }
+
+  /**
+   * Lists every message in the inbox. Requires authentication.
+   * @returns A summary (ID, name, subject and read state) for each message.
+   */
+  async getMessages(): Promise<MessageSummary[]> {
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.MessageBasePath}`, {
+      headers: this.authHeaders('get messages'),
+    });
+
+    expect(response.ok(), `Get messages failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+
+    const responseBody = await response.json();
+    if (!Array.isArray(responseBody?.messages)) {
+      throw new Error(`API response did not contain a 'messages' array as expected. Response: ${JSON.stringify(responseBody)}`);
+    }
+    return responseBody.messages;
+  }
+
+  /**
+   * Retrieves the full content of a single message. Requires authentication.
+   * @param messageId The ID of the message to retrieve.
+   * @returns The message details.
+   */
+  async getMessageById(messageId: number): Promise<Message> {
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.MessageBasePath}${messageId}`, {
+      headers: this.authHeaders('get message'),
+    });
+
+    expect(response.ok(), `Get message ID ${messageId} failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    return response.json();
+  }
+
+  /**
+   * Reads the number of unread messages shown on the admin inbox badge. Requires authentication.
+   * @returns The unread message count.
+   */
+  async getUnreadCount(): Promise<number> {
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.MessageCount}`, {
+      headers: this.authHeaders('get unread message count'),
+    });
+
+    expect(response.ok(), `Get unread message count failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+
+    const responseBody: { count: number } = await response.json();
+    return responseBody.count;
+  }
+
+  /**
+   * Marks a message as read. Requires authentication.
+   * @param messageId The ID of the message to mark.
+   */
+  async markAsRead(messageId: number): Promise<void> {
+    const response: APIResponse = await this.requestContext.put(
+      `${ENVIRONMENT.apiUrl}${BookingEndpoints.MessageBasePath}${messageId}/read`,
+      {
+        headers: this.authHeaders('mark message as read'),
+      }
+    );
+
+    expect(
+      response.ok(),
+      `Marking message ID ${messageId} as read failed with status ${response.status()}: ${await response.text()}`
+    ).toBeTruthy();
+  }
+
+  /**
+   * Deletes a message. Requires authentication.
+   * @param messageId The ID of the message to delete.
+   */
+  async deleteMessage(messageId: number): Promise<void> {
+    const response: APIResponse = await this.requestContext.delete(`${ENVIRONMENT.apiUrl}${BookingEndpoints.MessageBasePath}${messageId}`, {
+      headers: this.authHeaders('delete message'),
+    });
+
+    expect(
+      response.status(),
+      `Deletion failed for message ID ${messageId} with status ${response.status()}: ${await response.text()}`
+    ).toBe(200);
+    logger.info(`Successfully deleted message ID: ${messageId}`);
+  }
+}
+
+export class BrandingAPI extends AuthenticatedApiClient {
+  /**
+   * Reads the B&B branding shown on the front page.
+   * @returns The current branding details.
+   */
+  async getBranding(): Promise<BrandingDetails> {
+    const response: APIResponse = await this.requestContext.get(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BrandingBasePath}`);
+
+    expect(response.ok(), `Get branding failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    return response.json();
+  }
+
+  /**
+   * Replaces the B&B branding. Requires authentication. Branding is shared by every test,
+   * so callers should restore the previous branding once they are done.
+   * @param details The complete set of branding details to store.
+   * @returns The branding as stored after the update.
+   */
+  async updateBranding(details: BrandingDetails): Promise<BrandingDetails> {
+    const response: APIResponse = await this.requestContext.put(`${ENVIRONMENT.apiUrl}${BookingEndpoints.BrandingBasePath}`, {
+      headers: this.authHeaders('update branding'),
+      data: details,
+    });
+
+    expect(response.ok(), `Update branding failed with status ${response.status()}: ${await response.text()}`).toBeTruthy();
+    logger.info('Successfully updated branding');
+    return response.json();
+  }
+}
+
+/**
+ * Bundles the auth, booking, room, message and branding clients around a single admin token,
+ * so a test can use every admin API without logging in again for each client.
+ */
+export class AdminApiClient {
+  readonly auth: AuthApiClient;
+  readonly bookings: BookingAPI;
+  readonly rooms: RoomAPI;
+  readonly messages: MessageAPI;
+  readonly branding: BrandingAPI;
+
+  /**
+   * @param requestContext The Playwright `APIRequestContext` used for making API calls.
+   * @param authToken A valid admin token shared by all of the bundled clients.
+   */
+  constructor(requestContext: APIRequestContext, authToken: string) {
+    this.auth = new AuthApiClient(requestContext, authToken);
+    this.bookings = new BookingAPI(requestContext, authToken);
+    this.rooms = new RoomAPI(requestContext, authToken);
+    this.messages = new MessageAPI(requestContext, authToken);
+    this.branding = new BrandingAPI(requestContext, authToken);
   }
 }
 
@@ -137,13 +687,13 @@ export class BookingAPI {
  * @param bookingApi An instance of the `BookingAPI` class used to interact with the booking service.
  * @param guestDetails An object containing the guest's booking details, including
  * `firstName`, `lastName`, `checkInDate`, `checkOutDate`, and crucially, `roomId`.
- * @returns A Promise that resolves with the found booking ID (a string).
+ * @returns A Promise that resolves with the found booking ID.
  * @throws {Error} If `guestDetails.roomId` is not provided, if the API call to get bookings fails,
  * or if the specific booking cannot be found within the results for the given room.
  */
 
-export async function findBookingIdByGuestDetails(bookingApi: BookingAPI, guestDetails: GuestBookingDetails): Promise<string> {
-  console.log(
+export async function findBookingIdByGuestDetails(bookingApi: BookingAPI, guestDetails: GuestBookingDetails): Promise<number> {
+  logger.info(
     `Attempting to find booking ID for guest: ${guestDetails.firstName} ${guestDetails.lastName} (${guestDetails.checkInDate} - ${guestDetails.checkOutDate})...`
   );
 
@@ -152,11 +702,11 @@ export async function findBookingIdByGuestDetails(bookingApi: BookingAPI, guestD
   }
 
   const roomIdToSearch = guestDetails.roomId;
-  console.log(`Searching for booking in room ID: ${roomIdToSearch}`);
+  logger.info(`Searching for booking in room ID: ${roomIdToSearch}`);
 
   try {
     const bookingsInRoom = await bookingApi.getBookingsByRoomId(roomIdToSearch);
-    console.log(`Fetched ${bookingsInRoom.length} bookings from API for room ID: ${roomIdToSearch}.`);
+    logger.info(`Fetched ${bookingsInRoom.length} bookings from API for room ID: ${roomIdToSearch}.`);
 
     const foundBooking = bookingsInRoom.find(
       booking =>
@@ -165,10 +715,10 @@ export async function findBookingIdByGuestDetails(bookingApi: BookingAPI, guestD
         booking.bookingdates.checkin === guestDetails.checkInDate &&
         booking.bookingdates.checkout === guestDetails.checkOutDate
     );
-    console.log(`Found booking: ${JSON.stringify(foundBooking, null, 2)}`); // Log the found booking details
+    logger.debug(`Found booking: ${JSON.stringify(foundBooking)}`); // Log the found booking details, with the email redacted
 
     if (foundBooking) {
-      console.log(`Found booking ID: ${foundBooking.bookingid} in room ID: ${roomIdToSearch}`);
+      logger.info(`Found booking ID: ${foundBooking.bookingid} in room ID: ${roomIdToSearch}`);
       return foundBooking.bookingid; // Return the ID as soon as it's found
     } else {
       throw new Error(
@@ -198,39 +748,119 @@ export async function findBookingIdByGuestDetails(bookingApi: BookingAPI, guestD
  * @param guestDetails An object containing the guest's booking details, including
  * `firstName`, `lastName`, `checkInDate`, `checkOutDate`, and `roomId`, which is
  * essential for finding the booking.
+ * @param bookingApi Optional booking client. If it is already authenticated (e.g. `adminApi.bookings`),
+ * the login step is skipped.
  * @returns A Promise that resolves once the cleanup process is attempted.
  * @throws {Error} If authentication fails, the booking ID cannot be found, or the deletion fails.
  */
 
-export async function cleanupBooking(requestContext: APIRequestContext, guestDetails: GuestBookingDetails): Promise<void> {
-  console.log(`\n--- Starting cleanup for guest: ${guestDetails.firstName} ${guestDetails.lastName} ---`);
-  console.log(`Guest details received for cleanup: ${JSON.stringify(guestDetails)}`); // Log received guest details
-  const bookingApi = new BookingAPI(requestContext);
-  let bookingId: string | undefined; // Declare bookingId here
+export async function cleanupBooking(
+  requestContext: APIRequestContext,
+  guestDetails: GuestBookingDetails,
+  bookingApi: BookingAPI = new BookingAPI(requestContext)
+): Promise<void> {
+  logger.info(`\n--- Starting cleanup for guest: ${guestDetails.firstName} ${guestDetails.lastName} ---`);
+  logger.debug(
+    `Booking to clean up: room ID ${guestDetails.roomId}, ${guestDetails.checkInDate} to ${guestDetails.checkOutDate}` // Guest contact details are left out
+  );
+  let bookingId: number | undefined; // Declare bookingId here
 
   try {
-    // Step 1: Login to get an authentication token
-    console.log('Cleanup Step 1: Attempting to log in...');
-    const token = await bookingApi.login();
-    if (!token) {
-      console.error('Cleanup failed: Could not obtain authentication token. Aborting cleanup.');
-      return; // Exit early if login fails
+    // Step 1: Login to get an authentication token, unless an authenticated client was passed in
+    if (bookingApi.isAuthenticated) {
+      logger.debug('Cleanup Step 1: Reusing the existing admin session.');
+    } else {
+      logger.debug('Cleanup Step 1: Attempting to log in...');
+      const token = await bookingApi.login();
+      if (!token) {
+        logger.error('Cleanup failed: Could not obtain authentication token. Aborting cleanup.');
+        return; // Exit early if login fails
+      }
+      logger.debug('--- Cleanup Step 1a: Successfully logged in. ---');
     }
-    console.log('--- Cleanup Step 1a: Successfully logged in. ---');
 
     // Step 2: Find the booking ID using the guest details (now relies on guestDetails.roomid)
-    console.log('Cleanup Step 2: Attempting to find booking ID by guest details...');
+    logger.debug('Cleanup Step 2: Attempting to find booking ID by guest details...');
     bookingId = await findBookingIdByGuestDetails(bookingApi, guestDetails);
-    console.log(`--- Cleanup Step 2a: Found booking ID: ${bookingId} ---`);
+    logger.debug(`--- Cleanup Step 2a: Found booking ID: ${bookingId} ---`);
 
     // Step 3: Delete the booking using the authenticated session and found ID
-    console.log(`Cleanup Step 3: Attempting to delete booking ID: ${bookingId}...`);
+    logger.debug(`Cleanup Step 3: Attempting to delete booking ID: ${bookingId}...`);
     await bookingApi.deleteBooking(bookingId);
-    console.log(`--- Cleanup Step 3a:Successfully completed cleanup for booking ID: ${bookingId} ---`);
+    logger.debug(`--- Cleanup Step 3a:Successfully completed cleanup for booking ID: ${bookingId} ---`);
   } catch (error) {
-    console.error(`--- Cleanup failed for booking for guest ${guestDetails.firstName} ${guestDetails.lastName} ---`);
-    console.error(`Error during cleanup: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error(`--- Cleanup failed for booking for guest ${guestDetails.firstName} ${guestDetails.lastName} ---`);
+    logger.error(`Error during cleanup: ${error instanceof Error ? error.message : String(error)}`);
     // Re-throw the error if you want the test to fail if cleanup fails
     throw error;
   }
 }
+
+/**
+ * Finds the stored message for a submitted enquiry.
+ *
+ * The inbox listing only exposes the name and subject, so candidates are narrowed down on those
+ * and then fetched in full. A candidate only matches if every field (name, email, phone, subject
+ * and message body) was stored exactly as entered.
+ *
+ * @param messageApi An authenticated instance of the `MessageAPI` class.
+ * @param enquiryDetails The enquiry as it was entered in the contact form.
+ * @returns A Promise that resolves with the stored message.
+ * @throws {Error} If no stored message matches the enquiry exactly.
+ */
+
+export async function findMessageByEnquiryDetails(messageApi: MessageAPI, enquiryDetails: EnquiryDetails): Promise<Message> {
+  logger.debug(`Attempting to find message from ${enquiryDetails.name} with subject "${enquiryDetails.subject}"...`);
+  const candidates = (await messageApi.getMessages()).filter(
+    summary => summary.name === enquiryDetails.name && summary.subject === enquiryDetails.subject
+  );
+
+  for (const candidate of candidates) {
+    const message = await messageApi.getMessageById(candidate.id);
+    if (
+      message.email === enquiryDetails.email &&
+      message.phone === enquiryDetails.phone &&
+      message.description === enquiryDetails.message
+    ) {
+      logger.info(`Found message ID: ${message.messageid}`);
+      return message;
+    }
+  }
+
+  throw new Error(
+    `No stored message matches the enquiry from ${enquiryDetails.name} with subject "${enquiryDetails.subject}". ` +
+      `${candidates.length} message(s) matched on name and subject but differed in email, phone or message body.`
+  );
+}
+
+/**
+ * Cleans up the stored message for a submitted enquiry by logging in, finding the message and deleting it.
+ *
+ * @param requestContext The Playwright `APIRequestContext` used for making API calls.
+ * @param enquiryDetails The enquiry as it was entered in the contact form.
+ * @param messageApi Optional message client. If it is already authenticated (e.g. `adminApi.messages`),
+ * the login step is skipped.
+ * @returns A Promise that resolves once the message has been deleted.
+ * @throws {Error} If authentication fails, the message cannot be found, or the deletion fails.
+ */
+
+export async function cleanupEnquiry(
+  requestContext: APIRequestContext,
+  enquiryDetails: EnquiryDetails,
+  messageApi: MessageAPI = new MessageAPI(requestContext)
+): Promise<void> {
+  logger.info(`\n--- Starting cleanup for enquiry from: ${enquiryDetails.name} ---`);
+
+  try {
+    if (!messageApi.isAuthenticated) {
+      await messageApi.login();
+    }
+    const message = await findMessageByEnquiryDetails(messageApi, enquiryDetails);
+    await messageApi.deleteMessage(message.messageid);
+    logger.info(`--- Successfully completed cleanup for message ID: ${message.messageid} ---`);
+  } catch (error) {
+    logger.error(`--- Cleanup failed for enquiry from ${enquiryDetails.name} ---`);
+    logger.error(`Error during cleanup: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @file This file generates boundary-value validation cases from a form's rule schema
+ * (such as `GUEST_DETAILS_FORM_RULES` and `ENQUIRY_DETAILS_FORM_RULES` in `constants.ts`).
+ *
+ * For every field it produces an empty value when the field is required, values of min - 1, min,
+ * max and max + 1 characters when it has a length rule, and a malformed value when it has a format rule.
+ * Each case lists the messages the form should show for it, so specs can run the cases as
+ * parameterised tests instead of hand-picking a single invalid input per field.
+ */
+
+import { faker } from '@faker-js/faker';
+import { BoundaryCase, FieldRule, FormRuleSchema } from './types';
+
+/**
+ * Generates a value of exactly `length` characters from the field's character set.
+ */
+function valueOfLength(rule: FieldRule, length: number): string {
+  return rule.charset === 'numeric' ? faker.string.numeric(length) : faker.string.alpha(length);
+}
+
+/**
+ * Generates a value that satisfies every rule of the field.
+ */
+export function validValueFor(rule: FieldRule): string {
+  if (rule.charset === 'email') {
+    return faker.internet.email();
+  }
+  if (rule.length) {
+    // Stay close to the minimum, so long fields do not slow down typing
+    return valueOfLength(rule, faker.number.int({ min: rule.length.min, max: Math.min(rule.length.max, rule.length.min + 10) }));
+  }
+  return valueOfLength(rule, 8);
+}
+
+/**
+ * Generates the boundary-value cases of a form.
+ * @param schema The form's field rules.
+ * @returns One case per boundary: valid boundaries expect no errors, the others expect the messages of the rules they break.
+ */
+export function generateBoundaryCases<TForm>(schema: FormRuleSchema<TForm>): BoundaryCase<TForm>[] {
+  const buildValidForm = (): TForm => Object.fromEntries(schema.map(rule => [rule.field, validValueFor(rule)])) as TForm;
+
+  return schema.flatMap(rule => {
+    const withValue = (value: () => string) => (): TForm => ({ ...buildValidForm(), [rule.field]: value() });
+    const cases: BoundaryCase<TForm>[] = [];
+
+    if (rule.required) {
+      cases.push({
+        title: `${rule.field}: empty`,
+        field: rule.field,
+        expectedErrors: [rule.required.message, ...(rule.length && rule.length.min > 0 ? [rule.length.message] : [])],
+        buildForm: withValue(() => ''),
+      });
+    }
+
+    if (rule.length) {
+      const { min, max, message } = rule.length;
+      const boundaries: [string, number][] = [
+        ['min - 1', min - 1],
+        ['min', min],
+        ['max', max],
+        ['max + 1', max + 1],
+      ];
+      for (const [boundary, length] of boundaries.filter(([, length]) => length > 0)) {
+        cases.push({
+          title: `${rule.field}: ${length} characters (${boundary})`,
+          field: rule.field,
+          expectedErrors: length < min || length > max ? [message] : [],
+          buildForm: withValue(() => valueOfLength(rule, length)),
+        });
+      }
+    }
+
+    if (rule.format?.kind === 'email') {
+      cases.push({
+        title: `${rule.field}: malformed email`,
+        field: rule.field,
+        expectedErrors: [rule.format.message],
+        buildForm: withValue(() => `@f${faker.internet.domainName()}`),
+      });
+    }
+
+    return cases;
+  });
+}
@@ -1,61 +1,155 @@
 /**
  * @file This file contains a collection of constants used across the test automation framework,
  * primarily related to financial calculations, form validation error messages,
- * administrative credentials, and API endpoint configurations for a booking service.
+ * administrative error messages, and API endpoint configurations for a booking service.
+ *
+ * The URLs and admin credentials of the deployment under test come from the environment profile in `environment.ts`.
  */
 
+import { EnquiryDetails, FormRuleSchema, GuestDetailsFormFields, LogLevel } from './types';
+import { emptySubmissionErrors, populatedSubmissionErrors } from './validation-errors';
+
 export const CLEANING_FEE: number = 25;
 
 export const SERVICE_FEE: number = 15;
 
+/* Month names as the date picker and availability calendar labels spell them */
+export const MONTH_NAMES: string[] = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/* Names of the rooms every deployment is seeded with. Tests never create or delete them, so random room picks are made among them */
+export const SEEDED_ROOM_NAMES: string[] = ['101', '102', '103'];
+
+/* The longest stay tests book. Stay windows are allocated in fixed slots of this many nights plus one, so lanes never overlap */
+export const MAX_STAY_NIGHTS = 14;
+
+/* Room features offered as checkboxes in the admin room forms, in the order they are shown */
+export const ROOM_FEATURES: string[] = ['WiFi', 'TV', 'Radio', 'Refreshments', 'Safe', 'Views'];
+
+/* Validation rules of the guest details form, from which boundary-value cases are generated (see `boundary-values.ts`) */
+export const GUEST_DETAILS_FORM_RULES: FormRuleSchema<GuestDetailsFormFields> = [
+  {
+    field: 'firstName',
+    charset: 'alpha',
+    required: { message: 'Firstname should not be blank' },
+    length: { min: 3, max: 18, message: 'size must be between 3 and 18' },
+  },
+  {
+    field: 'lastName',
+    charset: 'alpha',
+    required: { message: 'Lastname should not be blank' },
+    length: { min: 3, max: 30, message: 'size must be between 3 and 30' },
+  },
+  {
+    field: 'email',
+    charset: 'email',
+    required: { message: 'must not be empty' },
+    format: { kind: 'email', message: 'must be a well-formed email address' },
+  },
+  {
+    field: 'phone',
+    charset: 'numeric',
+    required: { message: 'must not be empty' },
+    length: { min: 11, max: 21, message: 'size must be between 11 and 21' },
+  },
+];
+
+/* Errors per field for an empty guest details form, and for one filled with over-long values and a malformed email */
 export const GUEST_DETAILS_FORM_ERRORS = {
-  EMPTY_SUBMISSION: [
-    'Firstname should not be blank',
-    'size must be between 3 and 18',
-    'must not be empty',
-    'size must be between 3 and 30',
-    'size must be between 11 and 21',
-    'must not be empty',
-    'Lastname should not be blank',
-  ],
-  POPULATED_SUBMISSION: [
-    'must be a well-formed email address',
-    'size must be between 3 and 30',
-    'size must be between 3 and 18',
-    'size must be between 11 and 21',
-  ],
+  EMPTY_SUBMISSION: emptySubmissionErrors(GUEST_DETAILS_FORM_RULES),
+  POPULATED_SUBMISSION: populatedSubmissionErrors(GUEST_DETAILS_FORM_RULES),
+};
+
+/* Errors returned when a booking's dates are refused: a stay overlapping another booking of the room, or a stay of no nights */
+export const BOOKING_DATE_ERRORS = {
+  CONFLICT: 'The room dates are either invalid or are already booked for one or more of the dates that you have selected.',
+  CHECKOUT_NOT_AFTER_CHECKIN: 'Check-out date must be after check-in date',
 };
 
+/* Validation rules of the enquiry form, from which boundary-value cases are generated (see `boundary-values.ts`) */
+export const ENQUIRY_DETAILS_FORM_RULES: FormRuleSchema<EnquiryDetails> = [
+  { field: 'name', charset: 'alpha', required: { message: 'Name may not be blank' } },
+  {
+    field: 'email',
+    charset: 'email',
+    required: { message: 'Email may not be blank' },
+    format: { kind: 'email', message: 'must be a well-formed email address' },
+  },
+  {
+    field: 'phone',
+    charset: 'numeric',
+    required: { message: 'Phone may not be blank' },
+    length: { min: 11, max: 21, message: 'Phone must be between 11 and 21 characters.' },
+  },
+  {
+    field: 'subject',
+    charset: 'alpha',
+    required: { message: 'Subject may not be blank' },
+    length: { min: 5, max: 100, message: 'Subject must be between 5 and 100 characters.' },
+  },
+  {
+    field: 'message',
+    charset: 'alpha',
+    required: { message: 'Message may not be blank' },
+    length: { min: 20, max: 2000, message: 'Message must be between 20 and 2000 characters.' },
+  },
+];
+
+/* Errors per field for an empty enquiry form, and for one filled with over-long values and a malformed email */
 export const ENQUIRY_DETAILS_FORM_ERRORS = {
-  EMPTY_SUBMISSION: [
-    'Subject must be between 5 and 100 characters.',
-    'Email may not be blank',
-    'Phone must be between 11 and 21 characters.',
-    'Phone may not be blank',
-    'Message must be between 20 and 2000 characters.',
-    'Subject may not be blank',
-    'Message may not be blank',
-    'Name may not be blank',
-  ],
-  POPULATED_SUBMISSION: [
-    'Message must be between 20 and 2000 characters.',
-    'Phone must be between 11 and 21 characters.',
-    'Subject must be between 5 and 100 characters.',
-    'must be a well-formed email address',
-  ],
+  EMPTY_SUBMISSION: emptySubmissionErrors(ENQUIRY_DETAILS_FORM_RULES),
+  POPULATED_SUBMISSION: populatedSubmissionErrors(ENQUIRY_DETAILS_FORM_RULES),
 };
 
 export const ADMIN_INVALID_CREDENTIALS_ERROR = 'Invalid credentials';
 
-export enum AdminCredentials {
-  Username = 'admin',
-  Password = 'password',
-}
-export const BASE_API_URL = 'https://automationintesting.online/api';
+// WCAG 2.1 level A and AA rules, as tagged by axe-core, that the accessibility audit checks
+export const ACCESSIBILITY_WCAG_TAGS: string[] = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+// Upper bound on Tab presses the keyboard-only journey spends looking for one element before reporting it as unreachable
+export const KEYBOARD_MAX_TAB_PRESSES = 60;
+
+// Reviewed accessibility baselines, one folder per environment profile and project, like the visual baselines in `visual-snapshots`
+export const ACCESSIBILITY_BASELINE_DIR = 'accessibility-baselines';
+
+export const STUB_SERVER_PORT: number = Number(process.env.STUB_PORT || 3000);
+
+// Stub-only login header that shortens the lifetime of the issued token (capped at `STUB_TOKEN_TTL_MS`), so token expiry
+// can be checked without every other session expiring too
+export const STUB_TOKEN_TTL_HEADER = 'X-Stub-Token-Ttl-Ms';
+
+// Lifetime of the short-lived token the expired-token check asks the stub for
+export const SHORT_TOKEN_TTL_MS = 1000;
+
+// Replays faker-generated data: when set, every test seeds faker with this value instead of a seed derived from its ID
+export const FAKER_SEED: number | undefined = process.env.FAKER_SEED ? Number(process.env.FAKER_SEED) : undefined;
 
 export enum BookingEndpoints {
   Login = '/auth/login',
   ValidateToken = '/auth/validate',
+  Logout = '/auth/logout',
   BookingBasePath = '/booking/',
   RoomIdQueryParam = '?roomid=',
+  RoomBasePath = '/room/',
+  MessageBasePath = '/message/',
+  MessageCount = '/message/count',
+  ReportBasePath = '/report/',
+  BrandingBasePath = '/branding/',
 }
+
+// Console verbosity of the framework's logger (see `logger.ts`); every level is still attached to the test report
+export const LOG_LEVEL: LogLevel = (['debug', 'info', 'warn', 'error', 'silent'] as const).includes(process.env.LOG_LEVEL as LogLevel)
+  ? (process.env.LOG_LEVEL as LogLevel)
+  : 'info';
@@ -0,0 +1,133 @@
+/**
+ * @file This file provides availability-aware stay date allocation for tests that book rooms.
+ * `allocateStayDates` looks up the existing bookings of the rooms the test may book and returns the
+ * first window of the requested length that is free in every one of them.
+ *
+ * Windows never start before tomorrow. The calendar is cut into fixed slots of `MAX_STAY_NIGHTS + 1` days,
+ * whatever the length of the stay, and each concurrently running worker searches its own interleaved set
+ * of slots (`lane` out of `laneCount`). Every stay fits inside its slot, so parallel tests never compete
+ * for the same nights, even when they book stays of different lengths or skip over booked dates.
+ */
+
+import { AdminApiClient } from './api-helpers';
+import { BookingDates } from './types';
+import { MAX_STAY_NIGHTS } from './constants';
+import { logger } from './logger';
+
+/**
+ * @interface StayAllocationOptions
+ * @description Options for `allocateStayDates`.
+ * @property {number} nights - The length of the stay, at most `MAX_STAY_NIGHTS`.
+ * @property {number[]} roomIds - The rooms the stay may be booked in. The window must be free in each of them.
+ * @property {number} [lane] - This worker's lane, from 0 to `laneCount - 1`. Defaults to 0.
+ * @property {number} [laneCount] - How many workers share the calendar. Defaults to 1.
+ * @property {number} [leadDays] - How many days from today the first window may start. Defaults to 1 (tomorrow).
+ * @property {number} [maxAttempts] - How many of the lane's windows to try before giving up. Defaults to 30.
+ */
+
+export interface StayAllocationOptions {
+  nights: number;
+  roomIds: number[];
+  lane?: number;
+  laneCount?: number;
+  leadDays?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Returns today's date in 'YYYY-MM-DD' format.
+ */
+
+export function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Adds a number of days to a date.
+ * @param isoDate A date in 'YYYY-MM-DD' format.
+ * @param days The number of days to add, which may be negative.
+ * @returns The resulting date in 'YYYY-MM-DD' format.
+ */
+
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Returns the first day of the month after the given date's month.
+ * @param isoDate A date in 'YYYY-MM-DD' format.
+ * @returns The first day of the next month in 'YYYY-MM-DD' format.
+ */
+
+export function startOfNextMonth(isoDate: string): string {
+  const [year, month] = isoDate.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+}
+
+/**
+ * Checks whether two stays share at least one night. A stay checking out on the day another checks in does not overlap it.
+ */
+
+export function staysOverlap(first: BookingDates, second: BookingDates): boolean {
+  return first.checkin < second.checkout && second.checkin < first.checkout;
+}
+
+/**
+ * Lists the nights of a stay: every date from check-in up to, but not including, check-out.
+ * @returns The nights in 'YYYY-MM-DD' format, in order.
+ */
+export function nightsOf(stay: BookingDates): string[] {
+  const nights: string[] = [];
+  for (let night = stay.checkin; night < stay.checkout; night = addDays(night, 1)) {
+    nights.push(night);
+  }
+  return nights;
+}
+
+/**
+ * Finds a stay window of the requested length that is free in every given room.
+ *
+ * The lane's slots are tried in order: slot `k` starts `leadDays + (lane + k * laneCount) * (MAX_STAY_NIGHTS + 1)` days
+ * from today. The slot length does not depend on `nights`, so no two lanes ever propose overlapping windows.
+ * A window that looks free is checked again against freshly fetched bookings before it is returned.
+ *
+ * @param adminApi An authenticated admin API client, used to look up the rooms' bookings.
+ * @param options The stay length, the rooms and the worker's lane.
+ * @returns The check-in and check-out dates of the first free window.
+ * @throws {Error} If the stay is longer than `MAX_STAY_NIGHTS`, no room is given, or no free window is found within `maxAttempts` slots.
+ */
+
+export async function allocateStayDates(adminApi: AdminApiClient, options: StayAllocationOptions): Promise<BookingDates> {
+  const { nights, roomIds, lane = 0, laneCount = 1, leadDays = 1, maxAttempts = 30 } = options;
+  if (nights < 1 || nights > MAX_STAY_NIGHTS) {
+    throw new Error(`Cannot allocate a ${nights}-night stay: stays must be between 1 and ${MAX_STAY_NIGHTS} nights.`);
+  }
+  if (roomIds.length === 0) {
+    throw new Error('Cannot allocate a stay without a room to check its bookings against.');
+  }
+
+  const fetchBookings = async () => (await Promise.all(roomIds.map(roomId => adminApi.bookings.getBookingsByRoomId(roomId)))).flat();
+  let existingBookings = await fetchBookings();
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const checkin = addDays(today(), Math.max(leadDays, 1) + (lane + attempt * laneCount) * (MAX_STAY_NIGHTS + 1));
+    const stay: BookingDates = { checkin, checkout: addDays(checkin, nights) };
+    const isFree = () => !existingBookings.some(booking => staysOverlap(booking.bookingdates, stay));
+
+    if (!isFree()) {
+      continue;
+    }
+    // Bookings made since the first lookup, for example by tests outside the lanes, would make the window unusable
+    existingBookings = await fetchBookings();
+    if (isFree()) {
+      logger.info(`Allocated stay ${stay.checkin} to ${stay.checkout} in room IDs: ${roomIds.join(', ')} (lane ${lane})`);
+      return stay;
+    }
+  }
+
+  throw new Error(
+    `No free ${nights}-night stay found for room IDs ${roomIds.join(', ')} in lane ${lane} of ${laneCount} after ${maxAttempts} attempts.`
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * @file This file resolves the environment profile the suite runs against: the UI URL, the API URL and the
+ * admin credentials, so the same tests can target any deployment without code edits.
+ *
+ * `TEST_ENV` picks the profile (`local` by default). Every value can be set or overridden through `.env` or an
+ * environment variable (`BASE_URL`, `API_URL`, `ADMIN_USERNAME`, `ADMIN_PASSWORD`; see `.env.example`):
+ * - `local`: the bundled stub server (`stub-server/`) on `STUB_PORT`, with the stub's admin credentials.
+ *   Setting `BASE_URL` points it at another deployment, and the stub server is then not started.
+ * - `staging`: a private deployment with no defaults, so `BASE_URL`, `ADMIN_USERNAME` and `ADMIN_PASSWORD` are required.
+ * - `demo`: the public demo site, with its published admin credentials.
+ * `API_URL` defaults to the UI URL followed by `/api`.
+ *
+ * The profile is validated when this module is first loaded, which `playwright.config.ts` does at startup,
+ * so a missing or malformed value stops the run before any test starts, with one error listing every problem.
+ */
+
+// Loads .env first, so it also applies to the values read by the modules imported below (such as `STUB_PORT`)
+import 'dotenv/config';
+import { STUB_SERVER_PORT } from './constants';
+import { EnvironmentName, EnvironmentProfile } from './types';
+
+type ProfileDefaults = { baseUrl?: string; adminUsername?: string; adminPassword?: string };
+
+const PROFILE_DEFAULTS: Record<EnvironmentName, ProfileDefaults> = {
+  local: { baseUrl: `http://localhost:${STUB_SERVER_PORT}`, adminUsername: 'admin', adminPassword: 'password' },
+  staging: {},
+  demo: { baseUrl: 'https://automationintesting.online', adminUsername: 'admin', adminPassword: 'password' },
+};
+
+/**
+ * Reads an environment variable, treating an empty or blank value as unset.
+ */
+function readVariable(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Checks that a value is an absolute http(s) URL.
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves and validates the environment profile.
+ * @param env The environment variables to read. Defaults to `process.env`, which includes the values from `.env`.
+ * @returns The profile, with URLs stripped of trailing slashes.
+ * @throws Error if `TEST_ENV` names no profile, or a required value is missing or malformed.
+ */
+export function resolveEnvironment(env: NodeJS.ProcessEnv = process.env): EnvironmentProfile {
+  const name = readVariable(env, 'TEST_ENV') ?? 'local';
+  if (!(name in PROFILE_DEFAULTS)) {
+    throw new Error(`Unknown TEST_ENV "${name}". Use one of: ${Object.keys(PROFILE_DEFAULTS).join(', ')}.`);
+  }
+
+  const defaults = PROFILE_DEFAULTS[name as EnvironmentName];
+  const baseUrl = readVariable(env, 'BASE_URL') ?? defaults.baseUrl;
+  const values: Record<string, string | undefined> = {
+    BASE_URL: baseUrl,
+    API_URL: readVariable(env, 'API_URL') ?? (baseUrl && `${baseUrl.replace(/\/+$/, '')}/api`),
+    ADMIN_USERNAME: readVariable(env, 'ADMIN_USERNAME') ?? defaults.adminUsername,
+    ADMIN_PASSWORD: readVariable(env, 'ADMIN_PASSWORD') ?? defaults.adminPassword,
+  };
+
+  const problems: string[] = [];
+  for (const [variable, value] of Object.entries(values)) {
+    if (value === undefined) {
+      // API_URL is derived from BASE_URL, so only BASE_URL is reported when both are missing
+      if (variable !== 'API_URL') {
+        problems.push(`${variable} is required`);
+      }
+    } else if (variable.endsWith('_URL') && !isHttpUrl(value)) {
+      problems.push(`${variable} must be an absolute http(s) URL, got "${value}"`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(
+      `The "${name}" test environment is not configured:\n  - ${problems.join('\n  - ')}\nSet the values in .env or the environment (see .env.example).`
+    );
+  }
+
+  return {
+    name: name as EnvironmentName,
+    baseUrl: values.BASE_URL!.replace(/\/+$/, ''),
+    apiUrl: values.API_URL!.replace(/\/+$/, ''),
+    adminCredentials: { username: values.ADMIN_USERNAME!, password: values.ADMIN_PASSWORD! },
+    usesStubServer: name === 'local' && readVariable(env, 'BASE_URL') === undefined,
+  };
+}
+
+export const ENVIRONMENT: EnvironmentProfile = resolveEnvironment();
@@ -0,0 +1,137 @@
+/**
+ * @file This file provides `KeyboardDriver`, which drives a page the way a keyboard-only user would,
+ * for the keyboard mode of the reservation flow (`keyboardReservationFlow` in `setup-helpers.ts`).
+ *
+ * Instead of clicking an element, the driver presses Tab until the element has focus, then uses Enter or
+ * types into it. Along the way it checks that:
+ * - the element can be reached with Tab at all, within `KEYBOARD_MAX_TAB_PRESSES` presses;
+ * - it follows the previous element in the tab order, rather than being reached only after focus wrapped around the page;
+ * - its focus is visible, through an outline or a box shadow.
+ * Problems are collected rather than thrown, so one journey reports every element a keyboard user would
+ * struggle with. An unreachable element is focused directly so the journey can carry on.
+ */
+
+import { Page, Locator, expect } from '@playwright/test';
+import { KEYBOARD_MAX_TAB_PRESSES } from './constants';
+import { KeyboardAccessibilityIssue } from './types';
+import { logger } from './logger';
+
+export class KeyboardDriver {
+  readonly page: Page;
+  readonly issues: KeyboardAccessibilityIssue[] = [];
+  // The elements reached, in the order the journey reached them
+  readonly focusOrder: string[] = [];
+  private readonly maxTabPresses: number;
+
+  /**
+   * @param page The Playwright `Page` to drive.
+   * @param options.maxTabPresses How many times to press Tab before reporting an element as unreachable.
+   */
+  constructor(page: Page, { maxTabPresses = KEYBOARD_MAX_TAB_PRESSES }: { maxTabPresses?: number } = {}) {
+    this.page = page;
+    this.maxTabPresses = maxTabPresses;
+  }
+
+  /**
+   * Presses Tab until the target has focus, recording an issue if it cannot be reached, is only reached
+   * after focus wrapped around the page, or shows no visible focus. Does not press Tab if it already has focus.
+   * @param target The element to move focus to.
+   * @param name A readable name for the element, used in the issue report.
+   */
+  async tabTo(target: Locator, name: string): Promise<void> {
+    await expect(target, `${name} is not on the page`).toBeAttached();
+    const focusState = () =>
+      target.evaluate(element => ({
+        focused: element === document.activeElement,
+        onBody: !document.activeElement || document.activeElement === document.body,
+      }));
+
+    let state = await focusState();
+    // Focus on the body means the journey starts from the top of the page, which is not a wrap-around
+    let startedOnBody = state.onBody;
+    let wrapped = false;
+    let presses = 0;
+
+    while (!state.focused && presses < this.maxTabPresses) {
+      await this.page.keyboard.press('Tab');
+      presses++;
+      state = await focusState();
+      if (state.onBody && !startedOnBody) {
+        wrapped = true;
+      }
+      startedOnBody = startedOnBody && state.onBody;
+    }
+
+    if (!state.focused) {
+      this.recordIssue(name, 'unreachable', `not reached after ${this.maxTabPresses} Tab presses; focused directly to continue`);
+      await target.focus();
+    } else if (wrapped) {
+      this.recordIssue(name, 'focus-order', `reached only after focus wrapped around the page (${presses} Tab presses)`);
+    }
+
+    if (!(await this.hasVisibleFocus(target))) {
+      this.recordIssue(name, 'no-visible-focus', 'has focus but shows no outline or box shadow');
+    }
+    this.focusOrder.push(name);
+    logger.debug(`Keyboard focus on ${name} after ${presses} Tab presses`);
+  }
+
+  /**
+   * Moves focus to an element and activates it with a key, as a keyboard user would click it.
+   * @param target The button or link to activate.
+   * @param name A readable name for the element, used in the issue report.
+   * @param key The key that activates it. Defaults to Enter.
+   */
+  async activate(target: Locator, name: string, key: 'Enter' | ' ' = 'Enter'): Promise<void> {
+    await this.tabTo(target, name);
+    await this.page.keyboard.press(key);
+  }
+
+  /**
+   * Moves focus to an input, clears it and types the new value, then checks the input received it.
+   * @param target The input to type into.
+   * @param name A readable name for the input, used in the issue report.
+   * @param text The text to type.
+   */
+  async typeInto(target: Locator, name: string, text: string): Promise<void> {
+    await this.tabTo(target, name);
+    await this.page.keyboard.press('ControlOrMeta+A');
+    await this.page.keyboard.press('Backspace');
+    await this.page.keyboard.type(text);
+    await expect(target, `${name} did not receive the typed text`).toHaveValue(text);
+  }
+
+  /**
+   * Formats the issues found so far as one line per issue, for assertion messages and report attachments.
+   */
+  describeIssues(): string {
+    return KeyboardDriver.describeIssues(this.issues);
+  }
+
+  /**
+   * Formats keyboard issues as one line per issue, e.g. the `keyboardIssues` a keyboard-only reservation returns.
+   * @param issues The issues to describe.
+   */
+  static describeIssues(issues: KeyboardAccessibilityIssue[]): string {
+    return issues.map(issue => `${issue.element}: ${issue.problem} (${issue.detail})`).join('\n');
+  }
+
+  /**
+   * Checks whether the focused element shows a focus indicator: a non-zero outline or a box shadow.
+   */
+  private async hasVisibleFocus(target: Locator): Promise<boolean> {
+    if (!(await target.isVisible())) {
+      return false;
+    }
+    return target.evaluate(element => {
+      const style = getComputedStyle(element);
+      const outline = style.outlineStyle !== 'none' && parseFloat(style.outlineWidth) > 0;
+      return outline || style.boxShadow !== 'none';
+    });
+  }
+
+  private recordIssue(element: string, problem: KeyboardAccessibilityIssue['problem'], detail: string): void {
+    this.issues.push({ element, problem, detail });
+    logger.warn(`Keyboard issue on ${element}: ${problem} (${detail})`);
+  }
+}
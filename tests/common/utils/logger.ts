@@ -0,0 +1,82 @@
+/**
+ * @file This file provides the framework's leveled logger, used instead of `console` by helpers, page objects and fixtures.
+ *
+ * - Levels: `debug`, `info`, `warn` and `error`. Only messages at or above `LOG_LEVEL` (the `LOG_LEVEL`
+ *   environment variable, `info` by default, or `silent`) are printed to the console.
+ * - Redaction: tokens, passwords and email addresses are masked in every message before it is printed or stored.
+ * - Per-test context: while a test runs (see `../fixtures/log-fixture`), every message, whatever its level,
+ *   is also collected for that test and attached to it in the HTML report, and console lines are prefixed
+ *   with the worker and test title so output from parallel workers can be told apart.
+ */
+
+import { LOG_LEVEL } from './constants';
+import { LogLevel } from './types';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+type TestLogContext = { title: string; parallelIndex: number; lines: string[] };
+
+// Tests in a worker run one at a time, so the worker has at most one active test log
+let activeTestLog: TestLogContext | undefined;
+
+/**
+ * Masks secrets and personal data in a log message: token and password values (as `token=...`, `"token":"..."`
+ * or `Token: ...`), JSON Web Tokens and email addresses.
+ * @param text The message to redact.
+ * @returns The message with every match replaced by a `[REDACTED ...]` marker.
+ */
+export function redact(text: string): string {
+  return text
+    .replace(/((?:token|password)["']?\s*[:=]\s*["']?)[^\s"',;&}]+/gi, '$1[REDACTED]')
+    .replace(/\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, '[REDACTED JWT]')
+    .replace(/[^\s@"'<>(),;:=]+@[^\s@"'<>(),;:]+\.[a-z]{2,}/gi, '[REDACTED EMAIL]');
+}
+
+/**
+ * Starts collecting log lines for a test. Called by the `testLog` fixture before the test's other fixtures run.
+ * @param title The test's title path, used to prefix its console lines.
+ * @param parallelIndex The worker's parallel index.
+ */
+export function startTestLog(title: string, parallelIndex: number): void {
+  activeTestLog = { title, parallelIndex, lines: [] };
+}
+
+/**
+ * Stops collecting log lines for the current test.
+ * @returns The lines collected since `startTestLog`.
+ */
+export function stopTestLog(): string[] {
+  const lines = activeTestLog?.lines ?? [];
+  activeTestLog = undefined;
+  return lines;
+}
+
+/**
+ * Formats a detail passed alongside a message: errors by their message, objects as JSON.
+ */
+function formatDetail(detail: unknown): string {
+  if (detail instanceof Error) {
+    return detail.message;
+  }
+  return typeof detail === 'string' ? detail : JSON.stringify(detail);
+}
+
+function write(level: Exclude<LogLevel, 'silent'>, message: string, details: unknown[]): void {
+  const text = redact([message, ...details.map(formatDetail)].join(' '));
+  const line = `${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} ${text}`;
+  activeTestLog?.lines.push(line);
+
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[LOG_LEVEL]) {
+    return;
+  }
+  const prefix = activeTestLog ? `[worker ${activeTestLog.parallelIndex}] [${activeTestLog.title}] ` : '';
+  const print = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+  print(`${prefix}${line}`);
+}
+
+export const logger = {
+  debug: (message: string, ...details: unknown[]) => write('debug', message, details),
+  info: (message: string, ...details: unknown[]) => write('info', message, details),
+  warn: (message: string, ...details: unknown[]) => write('warn', message, details),
+  error: (message: string, ...details: unknown[]) => write('error', message, details),
+};
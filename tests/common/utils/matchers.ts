@@ -0,0 +1,175 @@
+/**
+ * @file This file registers the framework's domain-specific `expect` matchers with `expect.extend`.
+ * The fixtures re-export the extended `expect`, so specs importing it from a fixture file can write:
+ *
+ *   await expect(roomDetailsPage.guestDetailsError).toShowValidationErrors(['Firstname should not be blank']);
+ *   await expect(homePage.enquiryDetailsError).toShowFieldValidationErrors(ENQUIRY_DETAILS_FORM_RULES, { phone: ['Phone may not be blank'] });
+ *   await expect(roomDetailsPage.totalPriceDisplay).toDisplayPrice(320);
+ *   await expect(roomDetailsPage.displayedBookingDates).toShowBookingDates({ checkin, checkout });
+ *   await expect(homePage.primaryBookNowButton).toBeInteractable();
+ *
+ * Like Playwright's web-first assertions, each matcher re-reads the page until it matches or the
+ * expect timeout runs out, supports `.not` and a per-call `timeout`, and reports what it last saw.
+ */
+
+import { expect as baseExpect, ExpectMatcherState, Locator, MatcherReturnType } from '@playwright/test';
+import { BookingDates, FormRuleSchema } from './types';
+import { diffFieldErrors, FieldErrors } from './validation-errors';
+
+type MatcherOptions = { timeout?: number };
+
+// Matchers lose their type parameters through `expect.extend`, so form schemas are accepted with any field names
+type AnyForm = Record<string, unknown>;
+
+/**
+ * Polls `read` until its value equals `expected` (or, under `.not`, stops equalling it), then builds the matcher result.
+ * @param state The matcher's `this`.
+ * @param name The matcher name, used in the failure message.
+ * @param locator The locator the matcher was called on.
+ * @param read Reads the current value from the page.
+ * @param expected The expected value.
+ * @param options The per-call timeout, defaulting to the expect timeout.
+ * @param explain Optionally adds a line describing the difference between the expected and last read values.
+ */
+async function pollLocator<T>(
+  state: ExpectMatcherState,
+  name: string,
+  locator: Locator,
+  read: () => Promise<T>,
+  expected: T,
+  options: MatcherOptions = {},
+  explain?: (actual: T) => string
+): Promise<MatcherReturnType> {
+  const timeout = options.timeout ?? state.timeout;
+  let actual: T | undefined;
+  let pass: boolean;
+
+  try {
+    // toPass retries a read that throws, e.g. while the page navigates, as well as a mismatch
+    await baseExpect(async () => {
+      const value: unknown = (actual = await read());
+      if (state.isNot) {
+        baseExpect(value).not.toEqual(expected);
+      } else {
+        baseExpect(value).toEqual(expected);
+      }
+    }).toPass({ timeout });
+    pass = !state.isNot;
+  } catch {
+    pass = state.isNot;
+  }
+
+  const message = () =>
+    state.utils.matcherHint(name, undefined, undefined, { isNot: state.isNot }) +
+    '\n\n' +
+    `Locator: ${locator}\n` +
+    `Expected: ${state.isNot ? 'not ' : ''}${state.utils.printExpected(expected)}\n` +
+    `Received: ${state.utils.printReceived(actual)}` +
+    (explain && actual !== undefined && !state.isNot ? `\n\n${explain(actual)}` : '');
+
+  return { name, pass, expected, actual, message, timeout };
+}
+
+// Reads go through allTextContents and isVisible, which return at once instead of waiting for the element,
+// so a missing element shows up as a mismatch that is retried rather than a read that blocks the poll
+
+/**
+ * Reads the trimmed, non-empty texts of every element the locator matches.
+ */
+async function readMessages(locator: Locator): Promise<string[]> {
+  return (await locator.allTextContents()).map(text => text.trim()).filter(text => text.length > 0);
+}
+
+export const expect = baseExpect.extend({
+  /**
+   * Asserts that the error list shows exactly the given messages, in any order, with repeated messages counted.
+   * @param locator The locator matching every error message, e.g. `roomDetailsPage.guestDetailsError`.
+   * @param expectedErrors The expected messages. Pass `[]` to assert that no errors are shown.
+   */
+  async toShowValidationErrors(this: ExpectMatcherState, locator: Locator, expectedErrors: string[], options?: MatcherOptions) {
+    const explain = (actualErrors: string[]) => {
+      // Match the messages one occurrence at a time, so a message shown once but expected twice is reported as missing
+      const unexpected = [...actualErrors];
+      const missing: string[] = [];
+      for (const error of expectedErrors) {
+        const index = unexpected.indexOf(error);
+        if (index === -1) {
+          missing.push(error);
+        } else {
+          unexpected.splice(index, 1);
+        }
+      }
+      return `Missing: ${JSON.stringify(missing)}\nUnexpected: ${JSON.stringify(unexpected)}`;
+    };
+    return pollLocator(
+      this,
+      'toShowValidationErrors',
+      locator,
+      async () => (await readMessages(locator)).sort(),
+      [...expectedErrors].sort(),
+      options,
+      explain
+    );
+  },
+
+  /**
+   * Asserts that the error list shows exactly the errors expected per field of a form, with repeated messages counted.
+   * On a mismatch, each missing or unexpected message is reported under the field it belongs to (see `diffFieldErrors`).
+   * @param locator The locator matching every error message, e.g. `homePage.enquiryDetailsError`.
+   * @param schema The form's field rules, used to link messages to fields.
+   * @param expected The errors expected for each field. Pass `{}` to assert that no errors are shown.
+   */
+  async toShowFieldValidationErrors(
+    this: ExpectMatcherState,
+    locator: Locator,
+    schema: FormRuleSchema<AnyForm>,
+    expected: FieldErrors<AnyForm>,
+    options?: MatcherOptions
+  ) {
+    return pollLocator(
+      this,
+      'toShowFieldValidationErrors',
+      locator,
+      async () => diffFieldErrors(schema, expected, await readMessages(locator)),
+      [],
+      options,
+      differences => `Differences per field:\n  ${differences.join('\n  ')}`
+    );
+  },
+
+  /**
+   * Asserts that an element shows a price, reading the first number in its text (e.g. 320 from "£320" or "£320 per night").
+   * @param locator The element showing the price.
+   * @param amount The expected amount in pounds.
+   */
+  async toDisplayPrice(this: ExpectMatcherState, locator: Locator, amount: number, options?: MatcherOptions) {
+    const readPrice = async () => {
+      const match = ((await locator.allTextContents())[0] ?? '').match(/\d+(\.\d+)?/);
+      return match ? Number(match[0]) : null;
+    };
+    return pollLocator<number | null>(this, 'toDisplayPrice', locator, readPrice, amount, options);
+  },
+
+  /**
+   * Asserts that an element shows a stay's dates as "checkin - checkout", as the booking confirmation does.
+   * @param locator The element showing the dates.
+   * @param dates The expected check-in and check-out dates in 'YYYY-MM-DD' format.
+   */
+  async toShowBookingDates(this: ExpectMatcherState, locator: Locator, dates: BookingDates, options?: MatcherOptions) {
+    const readDates = async () => ((await locator.allTextContents())[0] ?? '').trim();
+    return pollLocator(this, 'toShowBookingDates', locator, readDates, `${dates.checkin} - ${dates.checkout}`, options);
+  },
+
+  /**
+   * Asserts that an element is both visible and enabled, i.e. ready to be clicked or filled.
+   * @param locator The element to check.
+   */
+  async toBeInteractable(this: ExpectMatcherState, locator: Locator, options?: MatcherOptions) {
+    const readState = async () => {
+      // isEnabled waits for the element to exist, so it is only read once the element is visible
+      const visible = await locator.isVisible();
+      return { visible, enabled: visible && (await locator.isEnabled()) };
+    };
+    return pollLocator(this, 'toBeInteractable', locator, readState, { visible: true, enabled: true }, options);
+  },
+});
@@ -0,0 +1,95 @@
+/**
+ * @file This file provides the itemised pricing model used to check the reservation page's price summary.
+ * A `FeeSchedule` holds the cleaning and service fees, plus optional per-room rules for rooms
+ * (by type or by ID) that charge different fees. `calculateExpectedPriceBreakdown` turns a room,
+ * its stay dates and a schedule into the expected value of every line of the summary, and
+ * `comparePriceBreakdowns` names each line item whose displayed value differs.
+ */
+
+import { CLEANING_FEE, SERVICE_FEE } from './constants';
+import { calculateNumberOfNights } from './shared-helpers';
+import { FeeSchedule, Fees, PriceBreakdown, SelectedRoomDetails } from './types';
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  cleaningFee: CLEANING_FEE,
+  serviceFee: SERVICE_FEE,
+  roomRules: [],
+};
+
+/**
+ * Names of the price summary lines, as used in failure messages.
+ */
+export const PRICE_LINE_ITEMS: Record<keyof PriceBreakdown, string> = {
+  nightlyRate: 'Nightly rate',
+  nights: 'Number of nights',
+  nightlyCharge: 'Nightly charge',
+  cleaningFee: 'Cleaning fee',
+  serviceFee: 'Service fee',
+  total: 'Total',
+};
+
+/**
+ * Works out the fees a room is charged. Rules are applied in order on top of the schedule's default fees,
+ * so a rule for a room ID listed after a rule for its type takes precedence.
+ * @param room The room being booked.
+ * @param schedule The fee schedule. Defaults to `DEFAULT_FEE_SCHEDULE`.
+ * @returns The cleaning and service fees for the room.
+ */
+
+export function resolveFees(room: SelectedRoomDetails, schedule: FeeSchedule = DEFAULT_FEE_SCHEDULE): Fees {
+  const fees: Fees = { cleaningFee: schedule.cleaningFee, serviceFee: schedule.serviceFee };
+  for (const rule of schedule.roomRules ?? []) {
+    const matchesId = rule.roomId === undefined || rule.roomId === room.roomId;
+    const matchesType = rule.roomType === undefined || rule.roomType.toLowerCase() === room.type.toLowerCase();
+    if (matchesId && matchesType) {
+      Object.assign(fees, rule.fees);
+    }
+  }
+  return fees;
+}
+
+/**
+ * Calculates the expected value of every line of the price summary.
+ * @param room The room being booked, including its nightly rate.
+ * @param checkInDateStr The check-in date in 'YYYY-MM-DD' format.
+ * @param checkOutDateStr The check-out date in 'YYYY-MM-DD' format.
+ * @param schedule The fee schedule. Defaults to `DEFAULT_FEE_SCHEDULE`.
+ * @returns The expected price breakdown.
+ */
+
+export function calculateExpectedPriceBreakdown(
+  room: SelectedRoomDetails,
+  checkInDateStr: string,
+  checkOutDateStr: string,
+  schedule: FeeSchedule = DEFAULT_FEE_SCHEDULE
+): PriceBreakdown {
+  const nights = calculateNumberOfNights(checkInDateStr, checkOutDateStr);
+  const nightlyCharge = room.price * nights;
+  const { cleaningFee, serviceFee } = resolveFees(room, schedule);
+
+  return {
+    nightlyRate: room.price,
+    nights,
+    nightlyCharge,
+    cleaningFee,
+    serviceFee,
+    total: nightlyCharge + cleaningFee + serviceFee,
+  };
+}
+
+/**
+ * Compares a displayed price breakdown with the expected one, line by line.
+ * @param expected The expected breakdown.
+ * @param displayed The breakdown read from the page.
+ * @returns One message per line item that differs, naming the line, e.g. "Cleaning fee: expected £25, displayed £30".
+ * Empty if every line matches.
+ */
+
+export function comparePriceBreakdowns(expected: PriceBreakdown, displayed: PriceBreakdown): string[] {
+  return (Object.keys(PRICE_LINE_ITEMS) as (keyof PriceBreakdown)[])
+    .filter(line => expected[line] !== displayed[line])
+    .map(line => {
+      const format = (value: number) => (line === 'nights' ? String(value) : `£${value}`);
+      return `${PRICE_LINE_ITEMS[line]}: expected ${format(expected[line])}, displayed ${format(displayed[line])}`;
+    });
+}
@@ -0,0 +1,197 @@
+/**
+ * @file This file provides the `ResourceRegistry`, which records every room, booking and message
+ * created while a test runs and deletes them again, newest first, once the test has finished.
+ *
+ * Entities are registered from two places:
+ * - API clients in `api-helpers.ts` call `trackCreatedResource` after every successful create,
+ *   which adds the entity to the registry of the test that is currently running.
+ * - `watch` listens to a browser context's responses and registers entities created through the UI.
+ *
+ * Anything that cannot be removed is returned from `cleanup` as a `CleanupFailure`, so the
+ * fixture can report it instead of silently leaving test data behind.
+ */
+
+import { APIRequestContext, BrowserContext, Response } from '@playwright/test';
+import { BookingEndpoints } from './constants';
+import { ENVIRONMENT } from './environment';
+import { logger } from './logger';
+
+export type TrackedResourceType = 'room' | 'booking' | 'message';
+
+/**
+ * @interface TrackedResource
+ * @description An entity created during a test.
+ * @property {TrackedResourceType} type - The kind of entity.
+ * @property {number} id - The ID assigned by the API.
+ * @property {'api' | 'ui'} source - Whether the entity was created through an API client or through the browser.
+ */
+
+export interface TrackedResource {
+  type: TrackedResourceType;
+  id: number;
+  source: 'api' | 'ui';
+}
+
+/**
+ * @interface CleanupFailure
+ * @description An entity the registry could not remove, together with the reason.
+ */
+
+export interface CleanupFailure {
+  resource: Partial<TrackedResource> & Pick<TrackedResource, 'type'>;
+  reason: string;
+}
+
+const RESOURCE_ENDPOINTS: Record<TrackedResourceType, { path: string; idField: string }> = {
+  room: { path: BookingEndpoints.RoomBasePath, idField: 'roomid' },
+  booking: { path: BookingEndpoints.BookingBasePath, idField: 'bookingid' },
+  message: { path: BookingEndpoints.MessageBasePath, idField: 'messageid' },
+};
+
+// Tests in a worker run one after another, so at most one registry is active at a time.
+let activeRegistry: ResourceRegistry | undefined;
+
+/**
+ * Registers an entity created through an API client with the registry of the running test.
+ * Does nothing when no registry is active, for example in worker-scoped fixtures.
+ * @param type The kind of entity that was created.
+ * @param id The ID assigned by the API.
+ */
+export function trackCreatedResource(type: TrackedResourceType, id: number): void {
+  activeRegistry?.track(type, id, 'api');
+}
+
+export class ResourceRegistry {
+  private requestContext: APIRequestContext;
+  private authToken: string;
+  private resources: TrackedResource[] = [];
+  private unidentified: CleanupFailure[] = [];
+  private pendingResponses: Promise<void>[] = [];
+
+  /**
+   * @param requestContext The Playwright `APIRequestContext` used to delete entities.
+   * @param authToken An admin token, sent as the `token` cookie with every deletion.
+   */
+  constructor(requestContext: APIRequestContext, authToken: string) {
+    this.requestContext = requestContext;
+    this.authToken = authToken;
+  }
+
+  /**
+   * The entities recorded so far, in the order they were created.
+   */
+  get tracked(): readonly TrackedResource[] {
+    return this.resources;
+  }
+
+  /**
+   * Makes this registry the one that `trackCreatedResource` reports to.
+   */
+  activate(): void {
+    activeRegistry = this;
+  }
+
+  /**
+   * Stops `trackCreatedResource` from reporting to this registry.
+   */
+  deactivate(): void {
+    if (activeRegistry === this) {
+      activeRegistry = undefined;
+    }
+  }
+
+  /**
+   * Records an entity for deletion at teardown. Entities that are already recorded are ignored.
+   * @param type The kind of entity.
+   * @param id The ID assigned by the API.
+   * @param source Whether the entity was created through an API client or through the browser.
+   */
+  track(type: TrackedResourceType, id: number, source: TrackedResource['source'] = 'api'): void {
+    if (this.resources.some(resource => resource.type === type && resource.id === id)) {
+      return;
+    }
+    this.resources.push({ type, id, source });
+    logger.info(`Tracking ${type} ID: ${id} (created through the ${source.toUpperCase()}) for cleanup`);
+  }
+
+  /**
+   * Listens to every response in a browser context and records rooms, bookings and messages created through the UI.
+   * @param context The browser context to watch.
+   */
+  watch(context: BrowserContext): void {
+    context.on('response', response => {
+      this.pendingResponses.push(this.trackResponse(response));
+    });
+  }
+
+  /**
+   * Waits until every watched response has been inspected. Call this before the browser context is closed,
+   * as response bodies can no longer be read afterwards.
+   */
+  async settle(): Promise<void> {
+    await Promise.all(this.pendingResponses);
+  }
+
+  /**
+   * Deletes every recorded entity in the reverse order of creation, so bookings go before the rooms they belong to.
+   * Entities the test already removed itself (the API answers 404) count as cleaned up.
+   * @returns The entities that could not be removed, including UI-created entities whose ID was never returned.
+   */
+  async cleanup(): Promise<CleanupFailure[]> {
+    await this.settle();
+    const failures: CleanupFailure[] = [...this.unidentified];
+
+    for (const resource of [...this.resources].reverse()) {
+      const reason = await this.deleteResource(resource);
+      if (reason) {
+        failures.push({ resource, reason });
+      }
+    }
+
+    this.resources = [];
+    this.unidentified = [];
+    return failures;
+  }
+
+  private async deleteResource(resource: TrackedResource): Promise<string | undefined> {
+    try {
+      const response = await this.requestContext.delete(`${ENVIRONMENT.apiUrl}${RESOURCE_ENDPOINTS[resource.type].path}${resource.id}`, {
+        headers: { Cookie: `token=${this.authToken}` },
+      });
+      if (response.status() === 200 || response.status() === 404) {
+        logger.info(`Cleaned up ${resource.type} ID: ${resource.id}${response.status() === 404 ? ' (already removed)' : ''}`);
+        return undefined;
+      }
+      return `Deletion failed with status ${response.status()}: ${await response.text()}`;
+    } catch (error) {
+      return `Deletion request failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private async trackResponse(response: Response): Promise<void> {
+    if (response.request().method() !== 'POST' || response.status() !== 201) {
+      return;
+    }
+    const withoutTrailingSlash = (pathname: string): string => pathname.replace(/\/+$/, '');
+    const requestPath = withoutTrailingSlash(new URL(response.url()).pathname);
+    const type = (Object.keys(RESOURCE_ENDPOINTS) as TrackedResourceType[]).find(
+      candidate => requestPath === withoutTrailingSlash(`${new URL(ENVIRONMENT.apiUrl).pathname}${RESOURCE_ENDPOINTS[candidate].path}`)
+    );
+    if (!type) {
+      return;
+    }
+
+    try {
+      const id = Number((await response.json())?.[RESOURCE_ENDPOINTS[type].idField]);
+      if (!Number.isInteger(id)) {
+        throw new Error(`the response did not contain '${RESOURCE_ENDPOINTS[type].idField}'`);
+      }
+      this.track(type, id, 'ui');
+    } catch (error) {
+      this.unidentified.push({
+        resource: { type, source: 'ui' },
+        reason: `Created through the UI but its ID could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+}
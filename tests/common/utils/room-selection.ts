@@ -0,0 +1,127 @@
+/**
+ * @file This file provides strategy-based room selection for the reservation flows.
+ * A `RoomSelectionStrategy` picks a room by ID, by type name, by price range, by index,
+ * or at random from a seed. Random picks always use a seed, drawn from the test's faker seed if none was given,
+ * so a failure that only happens for one room can be reproduced by passing the same seed again.
+ * A random pick can be limited to a list of room IDs, such as the seeded rooms from `findSeededRoomIds`:
+ * rooms that other workers create and delete while the test runs would otherwise change which room
+ * a seed picks, and could disappear together with the booking made for them.
+ *
+ * Every selection is recorded as a `room-selection` annotation on the running test,
+ * naming the strategy, the seed (for random picks) and the room that was chosen.
+ */
+
+import { test } from '@playwright/test';
+import { faker } from '@faker-js/faker';
+import { RoomSelectionStrategy, SelectedRoomDetails } from './types';
+import { RoomAPI } from './api-helpers';
+import { SEEDED_ROOM_NAMES } from './constants';
+import { logger } from './logger';
+
+/**
+ * Creates a pseudo-random number generator (mulberry32) that always yields the same sequence for the same seed.
+ * @param seed The seed for the sequence.
+ * @returns A function returning the next number in [0, 1) on each call.
+ */
+
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Describes a strategy for logs and annotations, e.g. `priceRange(min=50, max=150)`.
+ * @param strategy The strategy to describe.
+ * @returns A short, human-readable description.
+ */
+
+export function describeRoomSelection(strategy: RoomSelectionStrategy): string {
+  const { by, ...parameters } = strategy;
+  const details = Object.entries(parameters)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${Array.isArray(value) ? `[${value.join(',')}]` : value}`)
+    .join(', ');
+  return `${by}(${details})`;
+}
+
+/**
+ * Lists the IDs of the seeded rooms (`SEEDED_ROOM_NAMES`), which no test creates or deletes, for
+ * random picks that must stay the same from run to run.
+ * @param roomApi A room API client. Listing rooms does not require a login.
+ * @returns The IDs of the seeded rooms that currently exist, in ascending order.
+ */
+
+export async function findSeededRoomIds(roomApi: RoomAPI): Promise<number[]> {
+  const rooms = await roomApi.getRooms();
+  return rooms
+    .filter(room => SEEDED_ROOM_NAMES.includes(room.roomName))
+    .map(room => room.roomid)
+    .sort((first, second) => first - second);
+}
+
+/**
+ * Picks one room from a list of candidates according to the strategy and records the choice
+ * as a `room-selection` annotation on the running test.
+ *
+ * @param rooms The candidate rooms, in the order they are listed.
+ * @param strategy How to pick the room. Random picks without a seed get a newly generated one, and are made among
+ * the rooms in `roomIds`, ordered by ID, when it is given.
+ * @returns The chosen room.
+ * @throws {Error} If no candidate matches the strategy, or an index is out of range.
+ */
+
+export function selectRoomByStrategy<T extends Pick<SelectedRoomDetails, 'type' | 'price'> & { roomId?: number }>(
+  rooms: T[],
+  strategy: RoomSelectionStrategy
+): T {
+  if (strategy.by === 'random' && strategy.seed === undefined) {
+    strategy = { by: 'random', seed: faker.number.int({ max: 2 ** 31 - 1 }), roomIds: strategy.roomIds };
+  }
+
+  let matches: T[];
+  switch (strategy.by) {
+    case 'id':
+      matches = rooms.filter(room => room.roomId === strategy.roomId);
+      break;
+    case 'type':
+      matches = rooms.filter(room => room.type.toLowerCase() === strategy.type.toLowerCase());
+      break;
+    case 'priceRange':
+      matches = rooms.filter(room => room.price >= (strategy.min ?? 0) && room.price <= (strategy.max ?? Infinity));
+      break;
+    case 'index':
+      matches = rooms.slice(strategy.index, strategy.index + 1);
+      break;
+    case 'random': {
+      const { roomIds } = strategy;
+      // Ordering by ID keeps the pick independent of the order the rooms happen to be listed in
+      const candidates = rooms
+        .filter(room => !roomIds || (room.roomId !== undefined && roomIds.includes(room.roomId)))
+        .sort((first, second) => (first.roomId ?? 0) - (second.roomId ?? 0));
+      matches = [candidates[Math.floor(createSeededRandom(strategy.seed!)() * candidates.length)]].filter(Boolean);
+      break;
+    }
+  }
+
+  const description = describeRoomSelection(strategy);
+  if (matches.length === 0) {
+    throw new Error(
+      `No room matches the selection strategy ${description}. Candidates: ${rooms.map(room => `${room.type} (ID: ${room.roomId}, £${room.price})`).join('; ')}`
+    );
+  }
+
+  // Type and price matches can be ambiguous, so the first listed room is taken to keep the choice stable
+  const selectedRoom = matches[0];
+  logger.info(`Room selection ${description} chose "${selectedRoom.type}" (ID: ${selectedRoom.roomId}) at £${selectedRoom.price}`);
+  test.info().annotations.push({
+    type: 'room-selection',
+    description: `${description} -> ${selectedRoom.type} (ID: ${selectedRoom.roomId}, £${selectedRoom.price})`,
+  });
+  return selectedRoom;
+}
@@ -2,13 +2,32 @@
  * @file This file defines a flexible reservation flow helper function for Playwright tests.
  * It allows tests to execute the booking process up to a specified step, enabling
  * targeted testing of different stages of the reservation journey.
+ * An API-seeded variant reaches the same steps faster by creating the room selection
+ * and booking through the API and opening the page at the requested step, and a keyboard-only
+ * variant walks the same journey with Tab, Enter and the arrow keys to check it is keyboard accessible.
+ * All flows return a `ReservationResult` with the chosen room, the displayed pricing and, once the
+ * guest details are submitted, the booking request and the booking ID captured from the network.
  */
 
-import { Page } from '@playwright/test';
+import { Page, expect } from '@playwright/test';
 import { HomePage } from '../pages/home.page';
 import { RoomDetailsPage } from '../pages/room-details.page';
-import { GuestBookingDetails, SelectedRoomDetails } from '../utils/types'; // Assuming GuestDetails is your type, previously GuestBookingDetails
+import {
+  BookingDetails,
+  FeeSchedule,
+  GuestBookingDetails,
+  ReservationResult,
+  RoomSelectionStrategy,
+  SelectedRoomDetails,
+} from '../utils/types'; // Assuming GuestDetails is your type, previously GuestBookingDetails
 import { assertReturnToHomePage } from './shared-helpers';
+import { AdminApiClient } from './api-helpers';
+import { BookingEndpoints } from './constants';
+import { ENVIRONMENT } from './environment';
+import { selectRoomByStrategy } from './room-selection';
+import { DEFAULT_FEE_SCHEDULE } from './pricing';
+import { KeyboardDriver } from './keyboard-driver';
+import { logger } from './logger';
 
 /**
  * Defines the possible stopping points within the reservation flow.
@@ -17,6 +36,17 @@ import { assertReturnToHomePage } from './shared-helpers';
 
 export type ReservationFlowStep = 'start' | 'selectDates' | 'selectRoom' | 'enterGuestDetails' | 'bookingVerification' | 'complete';
 
+/**
+ * Defines how the reservation fixture reaches its `stopAt` step.
+ * - `ui`: drives the browser through every step with `reservationFlow`.
+ * - `api`: seeds the room selection and booking through the room and booking APIs and opens the page at the
+ *   requested step with `apiSeededReservationFlow`. Only available from `enterGuestDetails` onwards.
+ * - `keyboard`: drives the browser through every step with the keyboard only, with `keyboardReservationFlow`,
+ *   and reports the elements a keyboard user cannot reach.
+ */
+
+export type ReservationMode = 'ui' | 'api' | 'keyboard';
+
 /**
  * A record mapping each `ReservationFlowStep` to a numerical priority.
  * This is used internally by `reservationFlow` to determine how far to proceed
@@ -32,6 +62,39 @@ export const stopAtPriority: Record<ReservationFlowStep, number> = {
   complete: 6,
 };
 
+/**
+ * Submits the guest details form and waits for the booking request it sends, so the booking can be
+ * identified by the ID the API assigned rather than by searching for the guest's name and dates.
+ * @param page The Playwright `Page` object showing the guest details form.
+ * @param guestDetails The guest details to enter.
+ * @param submit How to fill in and submit the form. Defaults to filling and clicking through `RoomDetailsPage`.
+ * @returns The booking request payload and, if the API accepted the booking, its ID.
+ */
+
+async function submitGuestDetailsAndCaptureBooking(
+  page: Page,
+  guestDetails: GuestBookingDetails,
+  submit: () => Promise<void> = () => new RoomDetailsPage(page).fillGuestBookingDetailsAndProceed(guestDetails)
+): Promise<Pick<ReservationResult, 'bookingRequest' | 'bookingId'>> {
+  const bookingPath = `${new URL(ENVIRONMENT.apiUrl).pathname}${BookingEndpoints.BookingBasePath}`.replace(/\/+$/, '');
+  const bookingResponsePromise = page.waitForResponse(
+    response => response.request().method() === 'POST' && new URL(response.url()).pathname.replace(/\/+$/, '') === bookingPath
+  );
+
+  await submit();
+
+  const bookingResponse = await bookingResponsePromise;
+  const bookingRequest: BookingDetails = bookingResponse.request().postDataJSON();
+  if (bookingResponse.status() !== 201) {
+    logger.info(`Booking request was rejected with status ${bookingResponse.status()}.`);
+    return { bookingRequest };
+  }
+
+  const { bookingid } = await bookingResponse.json();
+  logger.info(`Captured booking ID from the network: ${bookingid}`);
+  return { bookingRequest, bookingId: bookingid };
+}
+
 /**
  * Executes a simulated reservation flow on the given Playwright page.
  *
@@ -46,9 +109,11 @@ export const stopAtPriority: Record<ReservationFlowStep, number> = {
  * @param stopAt The step at which the reservation flow should stop. Defaults to 'complete'.
  * @param guestDetails An object containing the guest's booking details. This object
  * will have its `roomId` property populated if a room is successfully selected during the flow.
- * @returns A Promise that resolves to `SelectedRoomDetails` if a room was selected,
- * otherwise `undefined`. This can be used by the calling test to perform further
- * assertions or cleanup based on the selected room.
+ * @param roomSelection How to choose the room on the home page. Defaults to a random pick from a generated seed.
+ * @param feeSchedule The fees the price summary is checked against, including per-room fee rules. Defaults to `DEFAULT_FEE_SCHEDULE`.
+ * @returns A Promise that resolves to a `ReservationResult` holding the selected room and the displayed
+ * pricing, if a room was selected, and the booking request and booking ID, if the guest details were submitted.
+ * This can be used by the calling test to perform further assertions or cleanup based on the exact booking.
  * @throws {Error} If a room cannot be selected when the flow is configured to proceed
  * to the 'selectRoom' stage or beyond.
  */
@@ -58,14 +123,16 @@ export async function reservationFlow(
   checkIn: string,
   checkOut: string,
   stopAt: ReservationFlowStep = 'complete',
-  guestDetails: GuestBookingDetails
-): Promise<SelectedRoomDetails | undefined> {
+  guestDetails: GuestBookingDetails,
+  roomSelection: RoomSelectionStrategy = { by: 'random' },
+  feeSchedule: FeeSchedule = DEFAULT_FEE_SCHEDULE
+): Promise<ReservationResult> {
   const homePage = new HomePage(page);
   const roomDetailsPage = new RoomDetailsPage(page);
 
   const shouldProceedTo = (step: ReservationFlowStep) => stopAtPriority[stopAt] > stopAtPriority[step];
 
-  let selectedRoom: SelectedRoomDetails | undefined; // To store details of the selected room
+  const result: ReservationResult = {}; // To store what the flow produced, step by step
 
   // Step 1: Go to Home Page
   if (shouldProceedTo('start')) {
@@ -77,25 +144,27 @@ export async function reservationFlow(
     await homePage.enterCheckInCheckOutDatesAndSubmit(page, checkIn, checkOut);
   }
 
-  // Step 3: Select a random room and capture its details
+  // Step 3: Select a room with the requested strategy and capture its details
   if (shouldProceedTo('selectRoom')) {
-    selectedRoom = await homePage.selectRandomRoomOption();
+    const selectedRoom = await homePage.selectRoomOption(roomSelection);
 
     if (selectedRoom) {
+      result.selectedRoom = selectedRoom;
       guestDetails.roomId = selectedRoom.roomId;
-      console.info(`Assigned selected room ID to guestDetails: ${guestDetails.roomId}`);
+      logger.info(`Assigned selected room ID to guestDetails: ${guestDetails.roomId}`);
     } else {
       throw new Error('Failed to select a room. Cannot proceed with reservation flow.');
     }
 
-    console.info(`Selected room: ${selectedRoom.type} with price: ${selectedRoom.price}`);
+    logger.info(`Selected room: ${selectedRoom.type} with price: ${selectedRoom.price}`);
     await roomDetailsPage.assertRoomDetailsAndNights(selectedRoom, checkIn, checkOut);
-    await roomDetailsPage.assertTotalPriceCalculationAndProceed(selectedRoom.price, checkIn, checkOut);
+    result.pricing = await roomDetailsPage.getDisplayedPricing();
+    await roomDetailsPage.assertTotalPriceCalculationAndProceed(selectedRoom, checkIn, checkOut, feeSchedule);
   }
 
-  // Step 4: Enter guest details and book the room
+  // Step 4: Enter guest details and book the room, capturing the booking request and its ID
   if (shouldProceedTo('enterGuestDetails')) {
-    await roomDetailsPage.fillGuestBookingDetailsAndProceed(guestDetails);
+    Object.assign(result, await submitGuestDetailsAndCaptureBooking(page, guestDetails));
   }
 
   // Step 5: Verify booking success
@@ -107,9 +176,199 @@ export async function reservationFlow(
   // Step 6:  Final check for completion
   if (reachedComplete) {
     await assertReturnToHomePage(page);
-    console.info('Reservation flow completed.');
+    logger.info('Reservation flow completed.');
   }
 
-  // Return selectedRoom if needed for further assertions in the test, otherwise return undefined
-  return selectedRoom;
+  // Return everything captured so far for further assertions and cleanup in the test
+  return result;
+}
+
+/**
+ * Reaches the same state as `reservationFlow`, but seeds the reservation through the API
+ * wherever the UI journey is only a means to an end.
+ *
+ * - Up to `selectRoom`, there is nothing to seed: the home page cannot be opened with the dates already
+ *   searched, so those steps are only reachable through the UI and API mode rejects them.
+ * - From `enterGuestDetails` onwards, an available room is chosen from the room API with the same strategy and its
+ *   reservation page is opened directly with the stay dates in the URL, skipping the home page
+ *   and the date picker.
+ * - At `bookingVerification`, the guest details form is still submitted through the UI, because the
+ *   submission (and its validation or confirmation) is what tests stopping at this step look at.
+ * - At `complete`, the booking is created through the booking API and the home page is opened,
+ *   matching the end of the UI flow.
+ *
+ * @param page The Playwright `Page` object to interact with the browser.
+ * @param adminApi An authenticated admin API client, used to find an available room and create the booking.
+ * @param checkIn The desired check-in date in 'YYYY-MM-DD' format.
+ * @param checkOut The desired check-out date in 'YYYY-MM-DD' format.
+ * @param stopAt The step at which the reservation flow should stop. Defaults to 'complete'.
+ * @param guestDetails An object containing the guest's booking details. This object
+ * will have its `roomId` property populated once a room is chosen.
+ * @param roomSelection How to choose the room. Defaults to a random pick from a generated seed.
+ * @param feeSchedule The fees the price summary is checked against, including per-room fee rules. Defaults to `DEFAULT_FEE_SCHEDULE`.
+ * @returns A Promise that resolves to a `ReservationResult`, as `reservationFlow` does. At `complete`, the booking request
+ * and ID are those of the booking created through the API, and no pricing is captured as the reservation page is never opened.
+ * @throws {Error} If `stopAt` is `selectRoom` or earlier, or if no room is available for the requested dates.
+ */
+
+export async function apiSeededReservationFlow(
+  page: Page,
+  adminApi: AdminApiClient,
+  checkIn: string,
+  checkOut: string,
+  stopAt: ReservationFlowStep = 'complete',
+  guestDetails: GuestBookingDetails,
+  roomSelection: RoomSelectionStrategy = { by: 'random' },
+  feeSchedule: FeeSchedule = DEFAULT_FEE_SCHEDULE
+): Promise<ReservationResult> {
+  if (stopAtPriority[stopAt] <= stopAtPriority['selectRoom']) {
+    throw new Error(
+      `Nothing can be seeded through the API before "enterGuestDetails", so stopping at "${stopAt}" gains nothing. Use reservationMode 'ui' instead.`
+    );
+  }
+
+  const homePage = new HomePage(page);
+  const roomDetailsPage = new RoomDetailsPage(page);
+
+  const availableRooms = await adminApi.rooms.getRooms({ checkin: checkIn, checkout: checkOut });
+  if (availableRooms.length === 0) {
+    throw new Error(`No rooms are available from ${checkIn} to ${checkOut}. Cannot seed the reservation through the API.`);
+  }
+  const selectedRoom: SelectedRoomDetails = selectRoomByStrategy(
+    availableRooms.map(availableRoom => ({ type: availableRoom.type, price: availableRoom.roomPrice, roomId: availableRoom.roomid })),
+    roomSelection
+  );
+  const room = availableRooms.find(availableRoom => availableRoom.roomid === selectedRoom.roomId)!;
+  guestDetails.roomId = room.roomid;
+  logger.info(`Seeding reservation through the API for room: ${room.type} (ID: ${room.roomid}) with price: ${room.roomPrice}`);
+
+  if (stopAt === 'complete') {
+    const bookingRequest: BookingDetails = {
+      roomid: room.roomid,
+      firstname: guestDetails.firstName,
+      lastname: guestDetails.lastName,
+      email: guestDetails.email,
+      phone: guestDetails.phone,
+      depositpaid: false,
+      bookingdates: { checkin: checkIn, checkout: checkOut },
+    };
+    const booking = await adminApi.bookings.createBooking(bookingRequest);
+    await homePage.goToHomePage();
+    logger.info('Reservation seeded through the API.');
+    return { selectedRoom, bookingRequest, bookingId: booking.bookingid };
+  }
+
+  // Open the room's reservation page directly, then continue as the UI flow would from the room details
+  await roomDetailsPage.goToReservationPage(room.roomid, checkIn, checkOut);
+  await roomDetailsPage.assertRoomDetailsAndNights(selectedRoom, checkIn, checkOut);
+  const pricing = await roomDetailsPage.getDisplayedPricing();
+  await roomDetailsPage.assertTotalPriceCalculationAndProceed(selectedRoom, checkIn, checkOut, feeSchedule);
+
+  if (stopAt === 'bookingVerification') {
+    return { selectedRoom, pricing, ...(await submitGuestDetailsAndCaptureBooking(page, guestDetails)) };
+  }
+
+  return { selectedRoom, pricing };
+}
+
+/**
+ * Walks the same journey as `reservationFlow` using the keyboard only, as a user who cannot use a mouse would.
+ *
+ * Every control is reached by pressing Tab from the previous one and activated with Enter: the check-in and
+ * check-out dates are chosen in the react-datepicker popup with the arrow keys, the room's "Book Now" button and
+ * "Reserve Now" are pressed with Enter, and the guest form is typed into field by field. A `KeyboardDriver` checks
+ * each control on the way: that Tab reaches it, in page order, and that its focus is visible.
+ * Problems are collected in `keyboardIssues` rather than thrown, so the journey carries on and the test can
+ * report every unreachable element at once.
+ *
+ * @param page The Playwright `Page` object to interact with the browser.
+ * @param checkIn The desired check-in date in 'YYYY-MM-DD' format.
+ * @param checkOut The desired check-out date in 'YYYY-MM-DD' format.
+ * @param stopAt The step at which the reservation flow should stop. Defaults to 'complete'.
+ * @param guestDetails An object containing the guest's booking details. This object
+ * will have its `roomId` property populated once a room is selected.
+ * @param roomSelection How to choose the room on the home page. Defaults to a random pick from a generated seed.
+ * @param feeSchedule The fees the price summary is checked against, including per-room fee rules. Defaults to `DEFAULT_FEE_SCHEDULE`.
+ * @returns A Promise that resolves to a `ReservationResult`, as `reservationFlow` does, with the keyboard
+ * accessibility issues found on the way in `keyboardIssues` and the controls reached in `keyboardFocusOrder`.
+ */
+
+export async function keyboardReservationFlow(
+  page: Page,
+  checkIn: string,
+  checkOut: string,
+  stopAt: ReservationFlowStep = 'complete',
+  guestDetails: GuestBookingDetails,
+  roomSelection: RoomSelectionStrategy = { by: 'random' },
+  feeSchedule: FeeSchedule = DEFAULT_FEE_SCHEDULE
+): Promise<ReservationResult> {
+  const homePage = new HomePage(page);
+  const roomDetailsPage = new RoomDetailsPage(page);
+  const keyboard = new KeyboardDriver(page);
+
+  const shouldProceedTo = (step: ReservationFlowStep) => stopAtPriority[stopAt] > stopAtPriority[step];
+
+  const result: ReservationResult = { keyboardIssues: keyboard.issues, keyboardFocusOrder: keyboard.focusOrder };
+
+  // Step 1: Go to Home Page
+  if (shouldProceedTo('start')) {
+    await homePage.goToHomePage();
+  }
+
+  // Step 2: Pick both dates in the date picker with the arrow keys and search
+  if (shouldProceedTo('selectDates')) {
+    await keyboard.tabTo(homePage.checkInDateInput, 'Check-in date');
+    await homePage.checkInDatePicker.selectDateWithKeyboard(checkIn);
+    await keyboard.tabTo(homePage.checkOutDateInput, 'Check-out date');
+    await homePage.checkOutDatePicker.selectDateWithKeyboard(checkOut);
+    await keyboard.activate(homePage.checkAvailabilityButton, 'Check Availability');
+  }
+
+  // Step 3: Open the chosen room with Enter, then check its details and proceed with Enter on "Reserve Now"
+  if (shouldProceedTo('selectRoom')) {
+    // Unlike a click, a key press does not wait for the navigation it starts, so wait for the reservation page
+    const selectedRoom = await homePage.selectRoomOption(roomSelection, async (bookNowButton, roomType) => {
+      await keyboard.activate(bookNowButton, `Book Now (${roomType})`);
+      await page.waitForURL(/\/reservation\/\d+/);
+    });
+    result.selectedRoom = selectedRoom;
+    guestDetails.roomId = selectedRoom.roomId;
+    logger.info(`Selected room with the keyboard: ${selectedRoom.type} with price: ${selectedRoom.price}`);
+
+    await roomDetailsPage.assertRoomDetailsAndNights(selectedRoom, checkIn, checkOut);
+    result.pricing = await roomDetailsPage.getDisplayedPricing();
+    await roomDetailsPage.assertTotalPriceCalculation(selectedRoom, checkIn, checkOut, feeSchedule);
+    await keyboard.activate(roomDetailsPage.reserveNowButton, 'Reserve Now');
+  }
+
+  // Step 4: Type the guest details field by field and submit with Enter, capturing the booking request and its ID
+  if (shouldProceedTo('enterGuestDetails')) {
+    Object.assign(
+      result,
+      await submitGuestDetailsAndCaptureBooking(page, guestDetails, async () => {
+        await keyboard.typeInto(roomDetailsPage.firstNameInput, 'First name', guestDetails.firstName);
+        await keyboard.typeInto(roomDetailsPage.lastNameInput, 'Last name', guestDetails.lastName);
+        await keyboard.typeInto(roomDetailsPage.emailInput, 'Email', guestDetails.email);
+        await keyboard.typeInto(roomDetailsPage.phoneInput, 'Phone', guestDetails.phone);
+        await keyboard.activate(roomDetailsPage.reserveNowButton, 'Reserve Now (guest details)');
+      })
+    );
+  }
+
+  // Step 5: Verify booking success
+  if (shouldProceedTo('bookingVerification')) {
+    await roomDetailsPage.verifyBookingSuccess(guestDetails);
+  }
+
+  // Step 6: Return to the home page with Enter
+  if (stopAtPriority[stopAt] >= stopAtPriority['complete']) {
+    await keyboard.activate(roomDetailsPage.returnHomeButton, 'Return home');
+    await expect(homePage.pageTitle).toBeVisible();
+    logger.info('Keyboard-only reservation flow completed.');
+  }
+
+  if (keyboard.issues.length > 0) {
+    logger.warn(`Keyboard-only reservation flow found ${keyboard.issues.length} issues:\n${keyboard.describeIssues()}`);
+  }
+  return result;
 }
@@ -5,11 +5,18 @@
  * to improve test readability, maintainability, and reusability.
  */
 
-import { Page, expect, Locator } from '@playwright/test';
+import { Page, Locator } from '@playwright/test';
+import { expect } from './matchers';
 import { HomePage } from '../pages/home.page';
 import { RoomDetailsPage } from '../pages/room-details.page';
 import { NavigationBarPage } from '../pages/navigation-bar.page';
 import { AdminPage } from '../pages/admin.page';
+import { AdminNavigationBarPage } from '../pages/admin-navigation-bar.page';
+import { AdminRoomsPage } from '../pages/admin-rooms.page';
+import { AdminReportPage } from '../pages/admin-report.page';
+import { AdminBrandingPage } from '../pages/admin-branding.page';
+import { AdminMessagesPage } from '../pages/admin-messages.page';
+import { logger } from './logger';
 
 /**
  * Asserts that the application successfully returns to the home page.
@@ -40,7 +47,7 @@ export async function assertReturnToHomePage(page: Page): Promise<void> {
 
 export async function getDigits(selector: Locator): Promise<number | null> {
   const text = (await selector.textContent()) ?? '';
-  console.info(`Extracting digits from: "${text}"`);
+  logger.debug(`Extracting digits from: "${text}"`);
   const match = text.match(/\d+(\.\d+)?/); // Matches integers or decimals
   return match ? Number(match[0]) : null;
 }
@@ -84,15 +91,15 @@ export function calculateNumberOfNights(checkInDateStr: string, checkOutDateStr:
 
 /**
  * Asserts that a given Playwright `Locator` is both **visible** and **enabled**.
- * This function uses `Promise.all` to concurrently check both conditions,
- * making it an efficient way to verify that a UI element is ready for interaction.
+ * This function uses the `toBeInteractable` matcher, which checks both conditions together and retries
+ * until they hold, making it an efficient way to verify that a UI element is ready for interaction.
  *
  * @param locator The Playwright `Locator` to assert.
  * @returns A Promise that resolves when both assertions pass.
  */
 
 export async function expectVisibleAndEnabled(locator: Locator): Promise<void> {
-  await Promise.all([expect(locator).toBeVisible(), expect(locator).toBeEnabled()]);
+  await expect(locator).toBeInteractable();
 }
 
 /**
@@ -166,64 +173,11 @@ export async function getAllVisibleErrorMessages(page: Page, errorMessageSelecto
   return actualErrorMessages.map(msg => msg.trim()).filter(msg => msg.length > 0);
 }
 
-/**
- * Verifies that specific validation error messages are present on the page.
- * It handles potential whitespace and filters empty strings.
- *
- * @param page The Playwright Page object.
- * @param errorMessageSelector The CSS or XPath selector that identifies all validation error messages.
- * YOU MUST ADJUST THIS SELECTOR to match your actual HTML structure.
- * @param expectedErrors An array of strings representing the exact expected error messages.
- * @param options An object with options for assertion strictness:
- * - `shouldContainAll` (boolean): If true, asserts that the page contains all `expectedErrors` (order doesn't matter). (Default: true)
- * - `shouldContainOnly` (boolean): If true, asserts that the page contains *only* `expectedErrors` and no other error messages (strict match). (Default: false)
- * - `timeout` (number): Max time in milliseconds to wait for error messages to appear. (Default: 5000ms)
- */
-export async function verifyValidationErrors(
-  page: Page,
-  errorMessageSelector: Locator,
-  expectedErrors: string[],
-  options?: { shouldContainAll?: boolean; shouldContainOnly?: boolean; timeout?: number }
-): Promise<void> {
-  const { shouldContainAll = true, shouldContainOnly = false, timeout = 5000 } = options || {};
-
-  const cleanedActualErrors = await getAllVisibleErrorMessages(page, errorMessageSelector, timeout);
-
-  // Sort both arrays for reliable comparison, as the order of messages in the DOM might vary
-  const sortedExpectedErrors = [...expectedErrors].sort();
-  const sortedActualErrors = [...cleanedActualErrors].sort();
-
-  console.log('\n--- Validation Error Check ---');
-  console.log('Expected:', sortedExpectedErrors);
-  console.log('Actual:  ', sortedActualErrors);
-  console.log('------------------------------');
-
-  if (shouldContainAll) {
-    // Assert that every expected error message is present in the actual messages found.
-    for (const expectedError of sortedExpectedErrors) {
-      if (!sortedActualErrors.includes(expectedError)) {
-        throw new Error(`❌ Expected error message "${expectedError}" was NOT found on the page.`);
-      }
-    }
-    console.log('✅ Assertion: All expected errors are present.');
-  }
-
-  if (shouldContainOnly) {
-    // Assert that the actual messages exactly match the expected messages (implies same count and content).
-    expect(sortedActualErrors).toEqual(sortedExpectedErrors);
-    console.error(
-      `❌ Assertion: Actual errors do not EXACTLY match expected errors.` +
-        `\n  Expected: ${JSON.stringify(sortedExpectedErrors)}` +
-        `\n  Actual:   ${JSON.stringify(sortedActualErrors)}`
-    );
-    console.log('✅ Assertion: Only expected errors are present (strict match).');
-  }
-}
-
 /**
  * Provides a consolidated set of navigation actions for the application.
  * This helper initialises necessary Page Object Models and exposes methods
- * to click navigation links and assert their outcomes.
+ * to click navigation links and assert their outcomes. On narrow viewports,
+ * the hamburger menu is opened first whenever the links are collapsed behind it.
  *
  * @param page The Playwright Page object.
  * @returns An object containing various navigation helper methods.
@@ -234,6 +188,14 @@ export function createNavigationActions(page: Page) {
   const navigationBar = new NavigationBarPage(page);
   const adminPage = new AdminPage(page);
 
+  /**
+   * Clicks a link inside the collapsible menu, opening the hamburger menu first if needed.
+   */
+  const clickMenuLink = async (link: Locator): Promise<void> => {
+    await navigationBar.openMenuIfCollapsed();
+    await validateAndPerform(link).click();
+  };
+
   return {
     /**
      * Clicks the Home link in the navigation bar and asserts the home page title.
@@ -247,7 +209,7 @@ export function createNavigationActions(page: Page) {
      * Clicks the Rooms link in the navigation bar and asserts the rooms title is.
      */
     async clickRooms(): Promise<void> {
-      await validateAndPerform(navigationBar.roomsLink).click();
+      await clickMenuLink(navigationBar.roomsLink);
       await expect(homePage.roomsTitle).toBeVisible();
     },
 
@@ -255,7 +217,7 @@ export function createNavigationActions(page: Page) {
      * Clicks the Booking link in the navigation bar and asserts the check availability button.
      */
     async clickBooking(): Promise<void> {
-      await validateAndPerform(navigationBar.bookingLink).click();
+      await clickMenuLink(navigationBar.bookingLink);
       await expect(homePage.checkAvailabilityButton).toBeVisible();
     },
 
@@ -266,7 +228,7 @@ export function createNavigationActions(page: Page) {
     // Issue: Amenities link is currently broken, so not included in navigation test currently
     async clickAmenities(): Promise<void> {
       // Ensure navigationBar.amenitiesLink is defined in NavBarPage
-      await validateAndPerform(navigationBar.amenitiesLink).click();
+      await clickMenuLink(navigationBar.amenitiesLink);
       await page.waitForLoadState('domcontentloaded');
     },
 
@@ -274,7 +236,7 @@ export function createNavigationActions(page: Page) {
      * Clicks the Location link in the navigation bar and asserts the location title.
      */
     async clickLocation(): Promise<void> {
-      await validateAndPerform(navigationBar.locationLink).click();
+      await clickMenuLink(navigationBar.locationLink);
       await expect(homePage.locationTitle).toBeVisible();
     },
 
@@ -282,7 +244,7 @@ export function createNavigationActions(page: Page) {
      * Clicks the Contact link in the navigation bar and waits for page load.
      */
     async clickContact(): Promise<void> {
-      await validateAndPerform(navigationBar.contactLink).click();
+      await clickMenuLink(navigationBar.contactLink);
       await expect(homePage.contactUsTitle).toBeVisible();
     },
 
@@ -290,9 +252,86 @@ export function createNavigationActions(page: Page) {
      * Clicks the Admin (Login) link in the navigation bar and waits for page load.
      */
     async clickAdmin(): Promise<void> {
-      await validateAndPerform(navigationBar.adminLink).click();
+      await clickMenuLink(navigationBar.adminLink);
       await page.waitForLoadState('domcontentloaded');
       await expect(adminPage.pageTitle).toBeVisible();
     },
   };
 }
+
+/**
+ * Provides a consolidated set of navigation actions for the admin panel.
+ * It mirrors `createNavigationActions`, but uses the admin navigation bar
+ * that is shown once an admin is logged in.
+ *
+ * @param page The Playwright Page object.
+ * @returns An object containing various admin navigation helper methods.
+ */
+
+export function createAdminNavigationActions(page: Page) {
+  const homePage = new HomePage(page);
+  const adminNavigationBar = new AdminNavigationBarPage(page);
+  const adminRoomsPage = new AdminRoomsPage(page);
+  const adminReportPage = new AdminReportPage(page);
+  const adminBrandingPage = new AdminBrandingPage(page);
+  const adminMessagesPage = new AdminMessagesPage(page);
+
+  /**
+   * Clicks a link or button inside the admin menu, opening the hamburger menu first if needed.
+   */
+  const clickMenuItem = async (item: Locator): Promise<void> => {
+    await adminNavigationBar.openMenuIfCollapsed();
+    await validateAndPerform(item).click();
+  };
+
+  return {
+    /**
+     * Clicks the Rooms link in the admin navigation bar and asserts the rooms title.
+     */
+    async clickRooms(): Promise<void> {
+      await clickMenuItem(adminNavigationBar.roomsLink);
+      await expect(adminRoomsPage.pageTitle).toBeVisible();
+    },
+
+    /**
+     * Clicks the Report link in the admin navigation bar and asserts the report calendar.
+     */
+    async clickReport(): Promise<void> {
+      await clickMenuItem(adminNavigationBar.reportLink);
+      await expect(adminReportPage.reportCalendar).toBeVisible();
+    },
+
+    /**
+     * Clicks the Branding link in the admin navigation bar and asserts the branding title.
+     */
+    async clickBranding(): Promise<void> {
+      await clickMenuItem(adminNavigationBar.brandingLink);
+      await expect(adminBrandingPage.pageTitle).toBeVisible();
+    },
+
+    /**
+     * Clicks the Messages link in the admin navigation bar and asserts the messages title.
+     */
+    async clickMessages(): Promise<void> {
+      await clickMenuItem(adminNavigationBar.messagesLink);
+      await expect(adminMessagesPage.pageTitle).toBeVisible();
+    },
+
+    /**
+     * Clicks the Front Page link in the admin navigation bar and asserts the home page title.
+     */
+    async clickFrontPage(): Promise<void> {
+      await clickMenuItem(adminNavigationBar.frontPageLink);
+      await expect(homePage.pageTitle).toBeVisible();
+    },
+
+    /**
+     * Clicks the Logout button and asserts that the home page is shown.
+     * Do not use this with the worker's shared admin session, as it ends the session for every test in the worker.
+     */
+    async logout(): Promise<void> {
+      await clickMenuItem(adminNavigationBar.logoutButton);
+      await expect(homePage.pageTitle).toBeVisible();
+    },
+  };
+}
@@ -1,10 +1,10 @@
 /**
  * @file This file declares the TypeScript interfaces and types used across the test automation framework.
  * These definitions ensure type safety and provide clear structures for data
- * related to room selections, guest booking information, contact enquiries, and API responses from the booking service.
+ * related to room selections, guest booking information, contact enquiries and their stored messages, rooms, and API responses from the booking service.
  */
 
-import { Locator, APIRequestContext } from '@playwright/test';
+import { Locator } from '@playwright/test';
 
 export interface SelectedRoomDetails {
   type: string;
@@ -16,9 +16,20 @@ export interface RoomOptionInternalDetails {
   type: string;
   price: number;
   bookNowButton: Locator;
-  roomId?: number;
+  roomId: number;
 }
 
+/**
+ * How a room is chosen from the rooms on offer. Random picks are reproducible: passing the same `seed`
+ * for the same list of rooms always chooses the same room.
+ */
+export type RoomSelectionStrategy =
+  | { by: 'id'; roomId: number }
+  | { by: 'type'; type: string }
+  | { by: 'priceRange'; min?: number; max?: number }
+  | { by: 'index'; index: number }
+  | { by: 'random'; seed?: number; roomIds?: number[] };
+
 export interface GuestBookingDetails {
   firstName: string;
   lastName: string;
@@ -29,6 +40,9 @@ export interface GuestBookingDetails {
   roomId: number;
 }
 
+/* The fields of the guest details form on the reservation page */
+export type GuestDetailsFormFields = Pick<GuestBookingDetails, 'firstName' | 'lastName' | 'email' | 'phone'>;
+
 export interface EnquiryDetails {
   name: string;
   email: string;
@@ -37,18 +51,47 @@ export interface EnquiryDetails {
   message: string;
 }
 
+export type Message = {
+  messageid: number;
+  name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  description: string;
+  read?: boolean;
+};
+
+export type MessageSummary = {
+  id: number;
+  name: string;
+  subject: string;
+  read: boolean;
+};
+
+export type RoomType = 'Single' | 'Twin' | 'Double' | 'Family' | 'Suite';
+
+export type RoomDetails = {
+  roomName: string;
+  type: RoomType;
+  accessible: boolean;
+  roomPrice: number;
+  features: string[];
+  description?: string;
+  image?: string;
+};
+
+export type Room = RoomDetails & {
+  roomid: number;
+};
+
 export type AuthResponse = {
   token: string;
 };
 
-export class AuthApiClient {
-  private requestContext: APIRequestContext;
-  public authToken: string | undefined;
-
-  constructor(requestContext: APIRequestContext) {
-    this.requestContext = requestContext;
-  }
-}
+export type LoginCredentials = {
+  username?: string;
+  password?: string;
+};
 
 export type BookingDates = {
   checkin: string;
@@ -56,18 +99,171 @@ export type BookingDates = {
 };
 
 export type BookingDetails = {
+  roomid: number;
   firstname: string;
   lastname: string;
-  totalprice: number;
   depositpaid: boolean;
   bookingdates: BookingDates;
+  email?: string;
+  phone?: string;
+  totalprice?: number;
   additionalneeds?: string;
 };
 
-export type Booking = BookingDetails & {
-  bookingid: string;
+export type BookingIdResponse = {
+  bookingid: number;
 };
 
-export type BookingIdResponse = {
-  bookingid: string;
+export type Booking = BookingDetails & BookingIdResponse;
+
+export type BookingDetailsUpdate = Partial<Omit<BookingDetails, 'bookingdates'>> & {
+  bookingdates?: Partial<BookingDates>;
+};
+
+export type BrandingDetails = {
+  name: string;
+  description: string;
+  address: string;
+  phone: string;
+  email: string;
+};
+
+export type ReportEntry = {
+  start: string;
+  end: string;
+  title: string;
+};
+
+export type Fees = {
+  cleaningFee: number;
+  serviceFee: number;
+};
+
+/**
+ * A fee rule for rooms that are charged differently. It applies to rooms matching every criterion it sets
+ * (`roomId` and/or `roomType`) and overrides the fees it lists.
+ */
+export type RoomFeeRule = {
+  roomId?: number;
+  roomType?: string;
+  fees: Partial<Fees>;
+};
+
+export type FeeSchedule = Fees & {
+  roomRules?: RoomFeeRule[];
+};
+
+/**
+ * Every line of the reservation page's price summary: "£rate x n nights" with its charge, the cleaning fee,
+ * the service fee and the total.
+ */
+export type PriceBreakdown = {
+  nightlyRate: number;
+  nights: number;
+  nightlyCharge: number;
+  cleaningFee: number;
+  serviceFee: number;
+  total: number;
+};
+
+export type DisplayedPricing = {
+  nightlyRate: number;
+  nights: number;
+  totalPrice: number;
+};
+
+/**
+ * What a reservation flow produced, as far as it got: the room it chose, the prices shown for the stay,
+ * and the booking request sent when the guest details were submitted, with the ID assigned by the API
+ * if the booking was accepted.
+ */
+export type ReservationResult = {
+  selectedRoom?: SelectedRoomDetails;
+  pricing?: DisplayedPricing;
+  bookingRequest?: BookingDetails;
+  bookingId?: number;
+  // Only set by the keyboard-only flow: every problem met while tabbing through the journey
+  keyboardIssues?: KeyboardAccessibilityIssue[];
+  // Only set by the keyboard-only flow: the controls reached, in the order the journey reached them
+  keyboardFocusOrder?: string[];
+};
+
+/**
+ * A problem a keyboard-only user would meet with one element of a journey (see `keyboard-driver.ts`):
+ * it cannot be reached with Tab, it is only reached after focus wraps around the page, or its focus is not visible.
+ */
+export type KeyboardAccessibilityIssue = {
+  element: string;
+  problem: 'unreachable' | 'focus-order' | 'no-visible-focus';
+  detail: string;
+};
+
+/**
+ * The validation rules of one form field, with the messages the form shows when they are broken.
+ * `charset` is used to generate values of a given length for the field.
+ */
+export type FieldRule<TField extends string = string> = {
+  field: TField;
+  charset: 'alpha' | 'numeric' | 'email';
+  required?: { message: string };
+  length?: { min: number; max: number; message: string };
+  format?: { kind: 'email'; message: string };
+};
+
+export type FormRuleSchema<TForm> = FieldRule<Extract<keyof TForm, string>>[];
+
+/**
+ * A generated validation case: one field set to a boundary or invalid value, with every other field valid.
+ * `buildForm` generates the values when the test runs, so they follow the test's faker seed.
+ */
+export type BoundaryCase<TForm> = {
+  title: string;
+  field: Extract<keyof TForm, string>;
+  expectedErrors: string[];
+  buildForm: () => TForm;
+};
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type EnvironmentName = 'local' | 'staging' | 'demo';
+
+/**
+ * The deployment the suite runs against, resolved from `TEST_ENV` and the environment variables (see `environment.ts`).
+ */
+export type EnvironmentProfile = {
+  name: EnvironmentName;
+  baseUrl: string;
+  apiUrl: string;
+  adminCredentials: Required<LoginCredentials>;
+  // Whether Playwright starts the bundled stub server (`stub-server/`) before the tests
+  usesStubServer: boolean;
+};
+
+/**
+ * One element failing one accessibility rule, as reported by an axe-core audit (see `accessibility.ts`).
+ */
+export type AccessibilityViolation = {
+  rule: string;
+  impact: string;
+  help: string;
+  helpUrl: string;
+  target: string;
+  html: string;
+};
+
+/**
+ * A reviewed, known violation in an accessibility baseline file. `reason` records why it is accepted for now.
+ */
+export type AccessibilityBaselineEntry = {
+  rule: string;
+  target: string;
+  reason?: string;
+};
+
+/**
+ * Narrows an accessibility audit to part of the page. Both take CSS selectors.
+ */
+export type AccessibilityAuditOptions = {
+  include?: string[];
+  exclude?: string[];
 };
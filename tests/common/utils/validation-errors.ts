@@ -0,0 +1,101 @@
+/**
+ * @file This file links form validation errors to the fields that produce them, for the field-aware
+ * `toShowFieldValidationErrors` matcher (`matchers.ts`) and the expected errors in `constants.ts`.
+ *
+ * The forms show their errors as one flat list, so each message is linked back to the input that
+ * produces it through the form's rule schema (`GUEST_DETAILS_FORM_RULES`, `ENQUIRY_DETAILS_FORM_RULES`).
+ * Errors are compared as a multiset: a message expected twice, such as 'must not be empty' for both
+ * the email and phone fields, must be shown exactly twice. On a mismatch, each missing or unexpected
+ * message is reported under the field it belongs to.
+ */
+
+import { FormRuleSchema } from './types';
+
+/**
+ * The errors expected for each field of a form. Fields that are left out are expected to show no errors.
+ */
+export type FieldErrors<TForm> = Partial<Record<Extract<keyof TForm, string>, string[]>>;
+
+/**
+ * Counts how many times each message occurs.
+ */
+export function countMessages(messages: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    counts.set(message, (counts.get(message) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Lists the fields whose rules produce a message, in schema order.
+ */
+function fieldsProducing<TForm>(schema: FormRuleSchema<TForm>, message: string): string[] {
+  return schema
+    .filter(rule => [rule.required?.message, rule.length?.message, rule.format?.message].includes(message))
+    .map(rule => rule.field);
+}
+
+/**
+ * Returns the errors the schema expects when every field is submitted empty: each required field's
+ * message, followed by its length message when it has a minimum length.
+ */
+export function emptySubmissionErrors<TForm>(schema: FormRuleSchema<TForm>): FieldErrors<TForm> {
+  const expected: FieldErrors<TForm> = {};
+  for (const rule of schema.filter(rule => rule.required)) {
+    expected[rule.field] = [rule.required!.message, ...(rule.length && rule.length.min > 0 ? [rule.length.message] : [])];
+  }
+  return expected;
+}
+
+/**
+ * Returns the errors the schema expects when every field is submitted with a value that breaks its rules:
+ * longer than its maximum length, and malformed for its format. Fields without such rules are expected to pass.
+ */
+export function populatedSubmissionErrors<TForm>(schema: FormRuleSchema<TForm>): FieldErrors<TForm> {
+  const expected: FieldErrors<TForm> = {};
+  for (const rule of schema.filter(rule => rule.length || rule.format)) {
+    expected[rule.field] = [rule.length?.message, rule.format?.message].filter((message): message is string => message !== undefined);
+  }
+  return expected;
+}
+
+/**
+ * Compares the errors shown on the page with the errors expected per field, as multisets.
+ *
+ * A missing message is reported under the fields that expected it. An unexpected message is reported
+ * under the fields whose rules produce it, preferring fields that did not expect it. When a message is
+ * shared by several fields and the count alone cannot tell which field is off, all of them are named.
+ *
+ * @param schema The form's field rules, used to link messages to fields.
+ * @param expected The errors expected for each field.
+ * @param actualErrors The errors shown on the page.
+ * @returns One readable line per difference, such as `phone: missing "must not be empty"`. Empty if the errors match.
+ */
+export function diffFieldErrors<TForm>(schema: FormRuleSchema<TForm>, expected: FieldErrors<TForm>, actualErrors: string[]): string[] {
+  const expectedEntries = Object.entries(expected) as [string, string[] | undefined][];
+  const expectedCounts = countMessages(expectedEntries.flatMap(([, messages]) => messages ?? []));
+  const actualCounts = countMessages(actualErrors);
+  const differences: string[] = [];
+
+  for (const message of new Set([...expectedCounts.keys(), ...actualCounts.keys()])) {
+    const expectedCount = expectedCounts.get(message) ?? 0;
+    const actualCount = actualCounts.get(message) ?? 0;
+    if (expectedCount === actualCount) {
+      continue;
+    }
+
+    const expectingFields = expectedEntries.filter(([, messages]) => messages?.includes(message)).map(([field]) => field);
+    const producingFields = fieldsProducing(schema, message);
+    const counts = expectedCount > 1 || actualCount > 1 ? ` (expected ${expectedCount}, shown ${actualCount})` : '';
+
+    if (actualCount < expectedCount) {
+      differences.push(`${expectingFields.join(' or ')}: missing "${message}"${counts}`);
+    } else {
+      const unexpectedFields = producingFields.filter(field => !expectingFields.includes(field));
+      const fields = unexpectedFields.length > 0 ? unexpectedFields : producingFields;
+      differences.push(`${fields.length > 0 ? fields.join(' or ') : '(unknown field)'}: unexpected "${message}"${counts}`);
+    }
+  }
+  return differences;
+}
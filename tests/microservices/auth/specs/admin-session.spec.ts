@@ -0,0 +1,35 @@
+/**
+ * @file This file contains Playwright tests for the worker-scoped admin session.
+ * It checks that the saved `storageState` opens the admin panel without going through
+ * the login form, and that the shared API client is authenticated with the same token.
+ */
+
+import { testWithAdminSession, expect } from '../../../common/fixtures/admin-session-fixture';
+import { AdminPage } from '../../../common/pages/admin.page';
+import { AdminNavigationBarPage } from '../../../common/pages/admin-navigation-bar.page';
+import { BrowserContext } from '@playwright/test';
+import fs from 'fs';
+
+testWithAdminSession.describe('Admin Session', () => {
+  testWithAdminSession('Should open the admin rooms page already logged in', async ({ adminPage }) => {
+    const admin = new AdminPage(adminPage);
+
+    await adminPage.goto('/admin/rooms');
+    await new AdminNavigationBarPage(adminPage).openMenuIfCollapsed();
+
+    await expect(admin.logoutButton).toBeVisible();
+    await expect(adminPage).toHaveURL(/\/admin\/rooms\/?/);
+    await expect(admin.loginButton).toBeHidden();
+  });
+
+  testWithAdminSession('Should save the admin token as a cookie and share it with the API client', async ({ adminSession, adminApi }) => {
+    const storageState: Awaited<ReturnType<BrowserContext['storageState']>> = JSON.parse(
+      fs.readFileSync(adminSession.storageStatePath, 'utf-8')
+    );
+    const tokenCookie = storageState.cookies.find(cookie => cookie.name === 'token');
+
+    expect(tokenCookie?.value).toBe(adminSession.token);
+    expect((await adminApi.auth.validateToken()).status()).toBe(200);
+    expect(await adminApi.messages.getUnreadCount()).toBeGreaterThanOrEqual(0);
+  });
+});
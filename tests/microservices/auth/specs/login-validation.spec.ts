@@ -6,14 +6,16 @@
  */
 
 import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
-import { createNavigationActions, validateAndPerform, verifyValidationErrors } from '../../../common/utils/shared-helpers';
-import { AdminCredentials, ADMIN_INVALID_CREDENTIALS_ERROR } from '../../../common/utils/constants';
+import { createAdminNavigationActions, createNavigationActions } from '../../../common/utils/shared-helpers';
+import { ADMIN_INVALID_CREDENTIALS_ERROR } from '../../../common/utils/constants';
+import { ENVIRONMENT } from '../../../common/utils/environment';
+import { AuthApiClient } from '../../../common/utils/api-helpers';
 import { faker } from '@faker-js/faker';
 
 testWithOptionalReservation.describe('Admin Login Validation', () => {
-  testWithOptionalReservation.beforeEach(async ({ page }) => {
-    const navigationActions = createNavigationActions(page);
-    navigationActions.clickAdmin();
+  testWithOptionalReservation.beforeEach(async ({ reservation }) => {
+    const navigationActions = createNavigationActions(reservation.page);
+    await navigationActions.clickAdmin();
   });
 
   testWithOptionalReservation.describe('Admin Login Validation: Invalid Username Submission', () => {
@@ -22,8 +24,8 @@ testWithOptionalReservation.describe('Admin Login Validation', () => {
     });
 
     testWithOptionalReservation('Should enter an invalid username and check the error is present', async ({ reservation, adminPage }) => {
-      adminPage.login(faker.internet.username(), AdminCredentials.Password);
-      await verifyValidationErrors(reservation.page, adminPage.invalidCredentialsError, [ADMIN_INVALID_CREDENTIALS_ERROR]);
+      await adminPage.login(faker.internet.username(), ENVIRONMENT.adminCredentials.password);
+      await expect(adminPage.invalidCredentialsError).toShowValidationErrors([ADMIN_INVALID_CREDENTIALS_ERROR]);
     });
   });
 
@@ -33,8 +35,8 @@ testWithOptionalReservation.describe('Admin Login Validation', () => {
     });
 
     testWithOptionalReservation('Should enter an invalid password and check the error is present', async ({ reservation, adminPage }) => {
-      adminPage.login(AdminCredentials.Username, faker.internet.password());
-      await verifyValidationErrors(reservation.page, adminPage.invalidCredentialsError, [ADMIN_INVALID_CREDENTIALS_ERROR]);
+      await adminPage.login(ENVIRONMENT.adminCredentials.username, faker.internet.password());
+      await expect(adminPage.invalidCredentialsError).toShowValidationErrors([ADMIN_INVALID_CREDENTIALS_ERROR]);
     });
   });
 
@@ -44,8 +46,8 @@ testWithOptionalReservation.describe('Admin Login Validation', () => {
     });
 
     testWithOptionalReservation('Should enter an invalid password and check the error is present', async ({ reservation, adminPage }) => {
-      adminPage.login(faker.internet.username(), faker.internet.password());
-      await verifyValidationErrors(reservation.page, adminPage.invalidCredentialsError, [ADMIN_INVALID_CREDENTIALS_ERROR]);
+      await adminPage.login(faker.internet.username(), faker.internet.password());
+      await expect(adminPage.invalidCredentialsError).toShowValidationErrors([ADMIN_INVALID_CREDENTIALS_ERROR]);
     });
   });
 
@@ -57,8 +59,8 @@ testWithOptionalReservation.describe('Admin Login Validation', () => {
     testWithOptionalReservation(
       'Should attempt login with empty fields and check the error is present',
       async ({ reservation, adminPage }) => {
-        adminPage.login('', '');
-        await verifyValidationErrors(reservation.page, adminPage.invalidCredentialsError, [ADMIN_INVALID_CREDENTIALS_ERROR]);
+        await adminPage.login('', '');
+        await expect(adminPage.invalidCredentialsError).toShowValidationErrors([ADMIN_INVALID_CREDENTIALS_ERROR]);
       }
     );
   });
@@ -68,12 +70,23 @@ testWithOptionalReservation.describe('Admin Login Validation', () => {
       stopAt: 'selectDates',
     });
 
-    testWithOptionalReservation('Should login successfully and logout as expected', async ({ reservation, adminPage, homePage }) => {
-      adminPage.login(AdminCredentials.Username, AdminCredentials.Password);
-      await verifyValidationErrors(reservation.page, adminPage.invalidCredentialsError, []);
-      await expect(reservation.page).toHaveURL(/\/admin\/rooms\/?/);
-      await validateAndPerform(adminPage.logoutButton).click();
-      await expect(homePage.pageTitle).toBeVisible();
-    });
+    testWithOptionalReservation(
+      'Should login successfully and logout as expected',
+      async ({ reservation, adminPage, adminRoomsPage, request }) => {
+        const authApiClient = new AuthApiClient(request);
+        await adminPage.login(ENVIRONMENT.adminCredentials.username, ENVIRONMENT.adminCredentials.password);
+        await expect(adminPage.invalidCredentialsError).toShowValidationErrors([]);
+        await expect(reservation.page).toHaveURL(/\/admin\/rooms\/?/);
+        await expect(adminRoomsPage.pageTitle).toBeVisible();
+        await expect(adminRoomsPage.roomListings.first()).toBeVisible();
+
+        const tokenCookie = (await reservation.page.context().cookies()).find(cookie => cookie.name === 'token');
+        expect(tokenCookie, 'Expected a token cookie after logging in').toBeDefined();
+        expect((await authApiClient.validateToken(tokenCookie!.value)).status()).toBe(200);
+
+        await createAdminNavigationActions(reservation.page).logout();
+        expect((await authApiClient.validateToken(tokenCookie!.value)).status()).toBe(403);
+      }
+    );
   });
 });
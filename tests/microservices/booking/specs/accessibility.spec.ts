@@ -0,0 +1,103 @@
+/**
+ * @file This file contains automated accessibility (WCAG 2.1 A and AA) audits of the booking path.
+ * The reservation flow is stopped at each of its steps and the page it shows is audited: the home page
+ * before and after the dates are searched, the room details page with the guest form, the booking
+ * confirmation and the home page the guest returns to. The admin login page is audited as well, and so are
+ * the admin panel screens behind it, opened from the worker's logged-in admin session (`testAsAdmin`).
+ *
+ * Each page is compared with its reviewed baseline in `accessibility-baselines/<TEST_ENV>/<project>/`, so a test
+ * only fails on violations that are not in the baseline yet. Every audited page has a committed baseline,
+ * `[]` when it has none, and a page without one fails. After an intentional change, refresh the
+ * baselines with `npx playwright test accessibility --update-snapshots` and review the diff.
+ */
+
+import { testWithOptionalReservation, testAsAdmin, expect } from '../../../common/fixtures/page-fixture';
+import { ReservationFlowStep, ReservationMode } from '../../../common/utils/setup-helpers';
+import { AccessibilityAuditOptions } from '../../../common/utils/types';
+
+// react-big-calendar's ARIA grid is invalid, as on the live site: its date buttons take role="cell" inside date cells,
+// and the rows of weeks with a booking hold event rows without cells. axe reports them under selectors that move with
+// the displayed month and its bookings, so they cannot be kept in a baseline; the month view is left out of the audits
+// of pages showing a calendar instead.
+const CALENDAR_AUDIT_OPTIONS: AccessibilityAuditOptions = { exclude: ['.rbc-month-view'] };
+
+// The step the reservation stops at, and the name of the page it then shows. 'start' opens no page, so it is not audited.
+const AUDITED_STEPS: {
+  stopAt: ReservationFlowStep;
+  pageName: string;
+  reservationMode: ReservationMode;
+  auditOptions?: AccessibilityAuditOptions;
+}[] = [
+  { stopAt: 'selectDates', pageName: 'home-page', reservationMode: 'ui' },
+  { stopAt: 'selectRoom', pageName: 'home-page-available-rooms', reservationMode: 'ui' },
+  { stopAt: 'enterGuestDetails', pageName: 'room-details-page', reservationMode: 'api', auditOptions: CALENDAR_AUDIT_OPTIONS },
+  { stopAt: 'bookingVerification', pageName: 'booking-confirmation', reservationMode: 'api', auditOptions: CALENDAR_AUDIT_OPTIONS },
+  { stopAt: 'complete', pageName: 'home-page-after-booking', reservationMode: 'api' },
+];
+
+testWithOptionalReservation.describe('Accessibility: Booking Path', () => {
+  for (const { stopAt, pageName, reservationMode, auditOptions } of AUDITED_STEPS) {
+    testWithOptionalReservation.describe(`Accessibility: ${stopAt}`, () => {
+      testWithOptionalReservation.use({ stopAt, reservationMode });
+
+      testWithOptionalReservation(
+        `Should have no new accessibility violations on the ${pageName}`,
+        async ({ reservation, roomDetailsPage, auditAccessibility }) => {
+          await reservation.page.waitForLoadState('domcontentloaded');
+          // The flow stops as soon as the guest form is submitted, so wait for the confirmation it leads to
+          if (stopAt === 'bookingVerification') {
+            await expect(roomDetailsPage.bookingConfirmedTitle).toBeVisible();
+          }
+          await auditAccessibility(pageName, auditOptions);
+        }
+      );
+    });
+  }
+});
+
+testWithOptionalReservation.describe('Accessibility: Admin', () => {
+  testWithOptionalReservation(
+    'Should have no new accessibility violations on the admin login page',
+    async ({ page, adminPage, auditAccessibility }) => {
+      await page.goto('/admin');
+      await expect(adminPage.pageTitle).toBeVisible();
+      await auditAccessibility('admin-login-page');
+    }
+  );
+});
+
+testAsAdmin.describe('Accessibility: Admin Panel', () => {
+  testAsAdmin('Should have no new accessibility violations on the admin rooms page', async ({ adminRoomsPage, auditAccessibility }) => {
+    await adminRoomsPage.goto();
+    await auditAccessibility('admin-rooms-page');
+  });
+
+  testAsAdmin(
+    'Should have no new accessibility violations on the admin room editor',
+    async ({ testRoom, adminRoomEditorPage, auditAccessibility }) => {
+      await adminRoomEditorPage.goto(testRoom.roomid);
+      await auditAccessibility('admin-room-editor-page');
+    }
+  );
+
+  testAsAdmin('Should have no new accessibility violations on the admin report page', async ({ adminReportPage, auditAccessibility }) => {
+    await adminReportPage.goto();
+    await auditAccessibility('admin-report-page', CALENDAR_AUDIT_OPTIONS);
+  });
+
+  testAsAdmin(
+    'Should have no new accessibility violations on the admin messages page',
+    async ({ adminMessagesPage, auditAccessibility }) => {
+      await adminMessagesPage.goto();
+      await auditAccessibility('admin-messages-page');
+    }
+  );
+
+  testAsAdmin(
+    'Should have no new accessibility violations on the admin branding page',
+    async ({ adminBrandingPage, auditAccessibility }) => {
+      await adminBrandingPage.goto();
+      await auditAccessibility('admin-branding-page');
+    }
+  );
+});
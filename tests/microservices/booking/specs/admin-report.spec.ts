@@ -0,0 +1,34 @@
+/**
+ * @file This file contains Playwright tests for the admin bookings report. A booking is seeded
+ * through the booking API for a dedicated test room, and the report calendar is checked to show
+ * it on every night of the stay. The room, and with it the booking, is removed after the test.
+ */
+
+import { testAsAdmin, expect } from '../../../common/fixtures/page-fixture';
+import { createAdminNavigationActions } from '../../../common/utils/shared-helpers';
+import { faker } from '@faker-js/faker';
+
+testAsAdmin.describe('Admin Report', () => {
+  testAsAdmin(
+    'Should show a new booking on every night of the stay',
+    async ({ page, testRoom, adminApi, adminReportPage, allocateStay }) => {
+      const stay = await allocateStay({ nights: 3, roomIds: [testRoom.roomid] });
+
+      const booking = await adminApi.bookings.createBooking({
+        roomid: testRoom.roomid,
+        firstname: faker.person.firstName().padEnd(3, 'a').slice(0, 18),
+        lastname: faker.person.lastName().padEnd(3, 'a').slice(0, 30),
+        email: faker.internet.email(),
+        phone: faker.string.numeric(11),
+        depositpaid: false,
+        bookingdates: stay,
+      });
+      const eventTitle = `${booking.firstname} ${booking.lastname} - Room: ${testRoom.roomName}`;
+      expect((await adminApi.bookings.getReport()).map(entry => entry.title)).toContain(eventTitle);
+
+      await page.goto('/admin/rooms');
+      await createAdminNavigationActions(page).clickReport();
+      await adminReportPage.assertBookingShown(eventTitle, booking.bookingdates.checkin, booking.bookingdates.checkout);
+    }
+  );
+});
@@ -0,0 +1,77 @@
+/**
+ * @file This file contains Playwright tests for the availability calendar on the reservation page.
+ * The days the calendar shows as unavailable are compared with the bookings the booking API returns
+ * for the same room, both for a reservation made through the UI and for a booking seeded through the API.
+ */
+
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+import { addDays, nightsOf, startOfNextMonth } from '../../../common/utils/date-allocation';
+import { BookingDates } from '../../../common/utils/types';
+import { faker } from '@faker-js/faker';
+
+/**
+ * Widens a stay to the whole months it touches, so the calendar comparison covers every day shown for it.
+ */
+function wholeMonthsCovering(stay: BookingDates): { from: string; to: string } {
+  return { from: `${stay.checkin.slice(0, 7)}-01`, to: startOfNextMonth(stay.checkout) };
+}
+
+testWithOptionalReservation.describe('Reservation Page Availability Calendar', () => {
+  testWithOptionalReservation.use({
+    roomSelection: async ({ testRoom }, use) => {
+      await use({ by: 'id', roomId: testRoom.roomid });
+    },
+  });
+
+  testWithOptionalReservation.describe('After a reservation through the UI', () => {
+    testWithOptionalReservation.use({ stopAt: 'bookingVerification' });
+
+    testWithOptionalReservation(
+      'Should block the reserved nights and match the booking API',
+      async ({ reservation, roomDetailsPage, testRoom, checkInDate, checkOutDate, adminApi }) => {
+        await expect(roomDetailsPage.bookingConfirmedTitle).toBeVisible();
+        const range = wholeMonthsCovering({ checkin: checkInDate, checkout: checkOutDate });
+        const bookings = await adminApi.bookings.getBookingsByRoomId(testRoom.roomid);
+
+        expect(bookings.map(booking => booking.bookingid)).toContain(reservation.bookingId);
+        await roomDetailsPage.availabilityCalendar.assertUnavailableDatesMatchBookings(
+          bookings.map(booking => booking.bookingdates),
+          range.from,
+          range.to
+        );
+        expect(await roomDetailsPage.availabilityCalendar.getUnavailableDates(checkInDate, checkOutDate)).toEqual(
+          nightsOf({ checkin: checkInDate, checkout: checkOutDate })
+        );
+      }
+    );
+  });
+
+  testWithOptionalReservation(
+    'Should show a booking seeded through the API when browsing to its month',
+    async ({ roomDetailsPage, testRoom, adminApi, allocateStay }) => {
+      const stay = await allocateStay({ nights: 2, roomIds: [testRoom.roomid] });
+      await adminApi.bookings.createBooking({
+        roomid: testRoom.roomid,
+        firstname: faker.person.firstName().padEnd(3, 'a').slice(0, 18),
+        lastname: faker.person.lastName().padEnd(3, 'a').slice(0, 30),
+        email: faker.internet.email(),
+        phone: faker.string.numeric(11),
+        depositpaid: false,
+        bookingdates: stay,
+      });
+
+      // Open the page on a later stay, so the calendar has to navigate back to the booked month
+      const laterCheckIn = addDays(stay.checkout, 62);
+      await roomDetailsPage.goToReservationPage(testRoom.roomid, laterCheckIn, addDays(laterCheckIn, 1));
+
+      const range = wholeMonthsCovering(stay);
+      const bookings = await adminApi.bookings.getBookingsByRoomId(testRoom.roomid);
+      await roomDetailsPage.availabilityCalendar.assertUnavailableDatesMatchBookings(
+        bookings.map(booking => booking.bookingdates),
+        range.from,
+        range.to
+      );
+      expect(await roomDetailsPage.availabilityCalendar.getUnavailableDates(stay.checkin, stay.checkout)).toEqual(nightsOf(stay));
+    }
+  );
+});
@@ -0,0 +1,87 @@
+/**
+ * @file This file contains API tests for the booking microservice CRUD operations.
+ * Each test books a stay in a dedicated test room through the worker's authenticated `adminApi` clients,
+ * on dates allocated for it, changes or reads the booking directly, and the room and booking are removed
+ * afterwards, without driving the UI reservation flow.
+ */
+
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+import { faker } from '@faker-js/faker';
+import { addDays } from '../../../common/utils/date-allocation';
+import { Booking, BookingDates, BookingDetails } from '../../../common/utils/types';
+
+// The booking starts with 3 nights of an allocated 5-night stayWindow, leaving room to replace it with a 5-night stay
+// or to extend it by 2 nights
+const WINDOW_NIGHTS = 5;
+const BOOKED_NIGHTS = 3;
+
+/**
+ * Builds a booking request for a room and stay with generated guest details.
+ */
+function buildBookingDetails(roomId: number, bookingdates: BookingDates): BookingDetails {
+  return {
+    roomid: roomId,
+    firstname: faker.person.firstName().padEnd(3, 'a').slice(0, 18),
+    lastname: faker.person.lastName().padEnd(3, 'a').slice(0, 30),
+    email: faker.internet.email(),
+    phone: faker.string.numeric(11),
+    depositpaid: true,
+    bookingdates,
+  };
+}
+
+testWithOptionalReservation.describe('Booking API: CRUD Operations', () => {
+  let stayWindow: BookingDates;
+  let createdBooking: Booking;
+  let bookingDetails: BookingDetails;
+
+  testWithOptionalReservation.beforeEach(async ({ testRoom, adminApi, allocateStay }) => {
+    stayWindow = await allocateStay({ nights: WINDOW_NIGHTS, roomIds: [testRoom.roomid] });
+    bookingDetails = buildBookingDetails(testRoom.roomid, {
+      checkin: stayWindow.checkin,
+      checkout: addDays(stayWindow.checkin, BOOKED_NIGHTS),
+    });
+    createdBooking = await adminApi.bookings.createBooking(bookingDetails);
+  });
+
+  testWithOptionalReservation('Should create a booking and return it with an ID', async () => {
+    expect(createdBooking.bookingid).toBeGreaterThan(0);
+    expect(createdBooking).toMatchObject({
+      roomid: bookingDetails.roomid,
+      firstname: bookingDetails.firstname,
+      lastname: bookingDetails.lastname,
+      bookingdates: bookingDetails.bookingdates,
+    });
+  });
+
+  testWithOptionalReservation('Should get a booking by its ID', async ({ adminApi }) => {
+    const booking = await adminApi.bookings.getBookingById(createdBooking.bookingid);
+    expect(booking).toEqual(createdBooking);
+  });
+
+  testWithOptionalReservation('Should replace a booking with a full update', async ({ adminApi }) => {
+    const updatedDetails = buildBookingDetails(bookingDetails.roomid, stayWindow);
+
+    const updatedBooking = await adminApi.bookings.updateBooking(createdBooking.bookingid, updatedDetails);
+
+    expect(updatedBooking.bookingid).toBe(createdBooking.bookingid);
+    expect(updatedBooking).toMatchObject({
+      firstname: updatedDetails.firstname,
+      lastname: updatedDetails.lastname,
+      bookingdates: updatedDetails.bookingdates,
+    });
+    expect(await adminApi.bookings.getBookingById(createdBooking.bookingid)).toEqual(updatedBooking);
+  });
+
+  testWithOptionalReservation('Should change only the check-out date with a partial update', async ({ adminApi }) => {
+    const newCheckOut = stayWindow.checkout;
+
+    const updatedBooking = await adminApi.bookings.partialUpdateBooking(createdBooking.bookingid, {
+      bookingdates: { checkout: newCheckOut },
+    });
+
+    expect(updatedBooking.bookingdates).toEqual({ checkin: bookingDetails.bookingdates.checkin, checkout: newCheckOut });
+    expect(updatedBooking.firstname).toBe(createdBooking.firstname);
+    expect(updatedBooking.lastname).toBe(createdBooking.lastname);
+  });
+});
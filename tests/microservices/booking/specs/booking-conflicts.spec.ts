@@ -0,0 +1,152 @@
+/**
+ * @file This file contains Playwright tests for overlapping and adjacent bookings of the same room.
+ * Each test books a stay in a dedicated test room through the booking API, then requests a second stay
+ * that overlaps it exactly or partly, sits back-to-back with it, or checks out on the day it checks in,
+ * both through the booking API and through the reservation page. Conflicts must be refused with the
+ * matching error and adjacent stays accepted. The room and every booking made are removed after each test.
+ */
+
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+import { addDays } from '../../../common/utils/date-allocation';
+import { validateAndPerform } from '../../../common/utils/shared-helpers';
+import { BOOKING_DATE_ERRORS } from '../../../common/utils/constants';
+import { BookingDates, BookingDetails } from '../../../common/utils/types';
+import { faker } from '@faker-js/faker';
+
+// The existing booking occupies nights 2 to 5 of an allocated 8-night window, leaving free nights on both sides
+const WINDOW_NIGHTS = 8;
+const EXISTING_STAY = { checkin: 2, checkout: 6 };
+
+type ConflictScenario = {
+  name: string;
+  // Offsets in days from the start of the allocated window
+  stay: { checkin: number; checkout: number };
+  // The status the booking API answers with: 201 when the stay must be accepted
+  expectedStatus: number;
+  // The error the booking is refused with
+  expectedError?: string;
+};
+
+const SCENARIOS: ConflictScenario[] = [
+  { name: 'exact overlap', stay: EXISTING_STAY, expectedStatus: 409, expectedError: BOOKING_DATE_ERRORS.CONFLICT },
+  {
+    name: 'partial overlap of the check-in',
+    stay: { checkin: 1, checkout: 3 },
+    expectedStatus: 409,
+    expectedError: BOOKING_DATE_ERRORS.CONFLICT,
+  },
+  {
+    name: 'partial overlap of the check-out',
+    stay: { checkin: 5, checkout: 7 },
+    expectedStatus: 409,
+    expectedError: BOOKING_DATE_ERRORS.CONFLICT,
+  },
+  { name: 'back-to-back stay before', stay: { checkin: 0, checkout: 2 }, expectedStatus: 201 },
+  { name: 'back-to-back stay after', stay: { checkin: 6, checkout: 8 }, expectedStatus: 201 },
+  {
+    name: 'same-day check-in and check-out',
+    stay: { checkin: 3, checkout: 3 },
+    expectedStatus: 400,
+    expectedError: BOOKING_DATE_ERRORS.CHECKOUT_NOT_AFTER_CHECKIN,
+  },
+];
+
+/**
+ * Builds a booking request for a room and stay with generated guest details.
+ */
+function buildBookingDetails(roomId: number, bookingdates: BookingDates): BookingDetails {
+  return {
+    roomid: roomId,
+    firstname: faker.person.firstName().padEnd(3, 'a').slice(0, 18),
+    lastname: faker.person.lastName().padEnd(3, 'a').slice(0, 30),
+    email: faker.internet.email(),
+    phone: faker.string.numeric(11),
+    depositpaid: false,
+    bookingdates,
+  };
+}
+
+/**
+ * Converts day offsets from the start of a window into stay dates.
+ */
+function toStay(windowStart: string, offsets: { checkin: number; checkout: number }): BookingDates {
+  return { checkin: addDays(windowStart, offsets.checkin), checkout: addDays(windowStart, offsets.checkout) };
+}
+
+testWithOptionalReservation.describe('Booking Conflicts', () => {
+  let windowStart: string;
+  let existingStay: BookingDates;
+
+  testWithOptionalReservation.beforeEach(async ({ testRoom, adminApi, allocateStay }) => {
+    windowStart = (await allocateStay({ nights: WINDOW_NIGHTS, roomIds: [testRoom.roomid] })).checkin;
+    existingStay = toStay(windowStart, EXISTING_STAY);
+    await adminApi.bookings.createBooking(buildBookingDetails(testRoom.roomid, existingStay));
+  });
+
+  testWithOptionalReservation.describe('Booking Conflicts: Booking API', () => {
+    for (const scenario of SCENARIOS) {
+      testWithOptionalReservation(
+        `Should ${scenario.expectedError ? 'refuse' : 'accept'} a ${scenario.name}`,
+        async ({ testRoom, adminApi }) => {
+          const stay = toStay(windowStart, scenario.stay);
+
+          const response = await adminApi.bookings.submitBooking(buildBookingDetails(testRoom.roomid, stay));
+          const body = await response.json();
+
+          expect(response.status(), `Booking ${stay.checkin} to ${stay.checkout} answered ${JSON.stringify(body)}`).toBe(
+            scenario.expectedStatus
+          );
+          if (scenario.expectedError) {
+            expect(body.errors ?? [body.error]).toContain(scenario.expectedError);
+          } else {
+            expect(body.bookingdates).toEqual(stay);
+          }
+
+          const roomStays = (await adminApi.bookings.getBookingsByRoomId(testRoom.roomid)).map(booking => booking.bookingdates);
+          expect(roomStays).toHaveLength(scenario.expectedError ? 1 : 2);
+        }
+      );
+    }
+  });
+
+  testWithOptionalReservation.describe('Booking Conflicts: Reservation Page', () => {
+    for (const scenario of SCENARIOS) {
+      testWithOptionalReservation(
+        `Should ${scenario.expectedError ? 'refuse' : 'accept'} a ${scenario.name}`,
+        async ({ testRoom, adminApi, roomDetailsPage }) => {
+          const stay = toStay(windowStart, scenario.stay);
+          const guest = buildBookingDetails(testRoom.roomid, stay);
+
+          await roomDetailsPage.goToReservationPage(testRoom.roomid, stay.checkin, stay.checkout);
+          // A same-day stay has no nights to price, so it goes straight to the guest form
+          if (stay.checkout > stay.checkin) {
+            await roomDetailsPage.assertTotalPriceCalculationAndProceed(
+              { type: testRoom.type, price: testRoom.roomPrice, roomId: testRoom.roomid },
+              stay.checkin,
+              stay.checkout
+            );
+          } else {
+            await validateAndPerform(roomDetailsPage.reserveNowButton).click();
+          }
+          await roomDetailsPage.fillGuestBookingDetailsAndProceed({
+            firstName: guest.firstname,
+            lastName: guest.lastname,
+            email: guest.email,
+            phone: guest.phone,
+          });
+
+          if (scenario.expectedError) {
+            await expect(roomDetailsPage.guestDetailsError).toShowValidationErrors([scenario.expectedError]);
+            await expect(roomDetailsPage.bookingConfirmedTitle).toBeHidden();
+          } else {
+            await roomDetailsPage.verifyBookingSuccess({ checkInDate: stay.checkin, checkOutDate: stay.checkout });
+          }
+
+          const roomStays = (await adminApi.bookings.getBookingsByRoomId(testRoom.roomid)).map(booking => booking.bookingdates);
+          expect(roomStays).toHaveLength(scenario.expectedError ? 1 : 2);
+          expect(roomStays).toContainEqual(existingStay);
+        }
+      );
+    }
+  });
+});
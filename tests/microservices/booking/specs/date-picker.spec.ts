@@ -0,0 +1,64 @@
+/**
+ * @file This file contains Playwright tests for the Check In and Check Out date pickers on the home page.
+ * It covers choosing dates several months ahead, navigating back to an earlier month, the handling of
+ * past (disabled) days and typing dates directly into the inputs.
+ */
+
+import { test, expect } from '../../../common/fixtures/page-fixture';
+import { addDays, today } from '../../../common/utils/date-allocation';
+
+/**
+ * Formats a 'YYYY-MM-DD' date as the dd/MM/yyyy value the date picker inputs display.
+ */
+function toDisplayDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+test.describe('Home Page Date Picker', () => {
+  test.beforeEach(async ({ homePage }) => {
+    await homePage.goToHomePage();
+  });
+
+  test('Should choose dates several months ahead and search with them', async ({ homePage }) => {
+    const checkIn = addDays(today(), 100);
+    const checkOut = addDays(checkIn, 3);
+
+    await homePage.enterCheckInCheckOutDatesAndSubmit(homePage.page, checkIn, checkOut);
+
+    await expect(homePage.checkInDateInput).toHaveValue(toDisplayDate(checkIn));
+    await expect(homePage.checkOutDateInput).toHaveValue(toDisplayDate(checkOut));
+    await expect(homePage.roomCardBookButton.first()).toHaveAttribute('href', new RegExp(`checkin=${checkIn}&checkout=${checkOut}`));
+  });
+
+  test('Should navigate back to an earlier month', async ({ homePage }) => {
+    const laterDate = addDays(today(), 95);
+    const earlierDate = addDays(today(), 35);
+
+    await homePage.checkInDatePicker.selectDate(laterDate);
+    await homePage.checkInDatePicker.selectDate(earlierDate);
+
+    await expect(homePage.checkInDateInput).toHaveValue(toDisplayDate(earlierDate));
+  });
+
+  test('Should mark past days as not available and ignore clicks on them', async ({ homePage }) => {
+    const yesterday = addDays(today(), -1);
+    const valueBefore = await homePage.checkInDateInput.inputValue();
+
+    expect(await homePage.checkInDatePicker.isDateDisabled(yesterday)).toBe(true);
+    await homePage.checkInDatePicker.selectDate(yesterday, { allowDisabled: true });
+
+    await expect(homePage.checkInDateInput).toHaveValue(valueBefore);
+    await expect(homePage.checkInDatePicker.selectDate(yesterday)).rejects.toThrow('not available');
+  });
+
+  test('Should accept dates typed directly into the inputs', async ({ homePage }) => {
+    const checkIn = addDays(today(), 60);
+    const checkOut = addDays(checkIn, 2);
+
+    await homePage.typeCheckInCheckOutDatesAndSubmit(checkIn, checkOut);
+
+    await expect(homePage.checkInDateInput).toHaveValue(toDisplayDate(checkIn));
+    await expect(homePage.roomCardBookButton.first()).toHaveAttribute('href', new RegExp(`checkin=${checkIn}&checkout=${checkOut}`));
+  });
+});
@@ -1,20 +1,20 @@
 /**
  * @file This file contains Playwright tests specifically for validating the guest details form
  * during the room reservation process. It covers scenarios for both empty field submissions
- * and submissions with invalid input formats or lengths.
+ * and submissions with invalid input formats or lengths. Boundary values for every field are generated
+ * from `GUEST_DETAILS_FORM_RULES` and run as one test each.
  */
 
-import { testWithOptionalReservation } from '../../../common/fixtures/page-fixture';
-import { verifyValidationErrors } from '../../../common/utils/shared-helpers';
-import { GUEST_DETAILS_FORM_ERRORS } from '../../../common/utils/constants';
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+import { GUEST_DETAILS_FORM_ERRORS, GUEST_DETAILS_FORM_RULES } from '../../../common/utils/constants';
+import { generateBoundaryCases } from '../../../common/utils/boundary-values';
 import { faker } from '@faker-js/faker';
 
 testWithOptionalReservation.describe('Guest Details Validation', () => {
   testWithOptionalReservation.describe('Guest Details Validation: Empty Fields Submission', () => {
     testWithOptionalReservation.use({
-      checkInDate: '2025-07-21',
-      checkOutDate: '2025-07-28',
       stopAt: 'bookingVerification',
+      reservationMode: 'api',
       guestDetailsOverride: {
         firstName: '',
         lastName: '',
@@ -24,25 +24,62 @@ testWithOptionalReservation.describe('Guest Details Validation', () => {
     });
 
     testWithOptionalReservation('Should check that the empty form errors are present', async ({ reservation, roomDetailsPage }) => {
-      await verifyValidationErrors(reservation.page, roomDetailsPage.guestDetailsError, GUEST_DETAILS_FORM_ERRORS.EMPTY_SUBMISSION);
+      await expect(roomDetailsPage.guestDetailsError).toShowFieldValidationErrors(
+        GUEST_DETAILS_FORM_RULES,
+        GUEST_DETAILS_FORM_ERRORS.EMPTY_SUBMISSION
+      );
     });
   });
 
   testWithOptionalReservation.describe('Guest Details Validation: Invalid Input Submission', () => {
     testWithOptionalReservation.use({
-      checkInDate: '2025-07-21',
-      checkOutDate: '2025-07-28',
       stopAt: 'bookingVerification',
-      guestDetailsOverride: {
-        firstName: faker.string.alpha(19),
-        lastName: faker.string.alpha(31),
-        email: `@f${faker.internet.domainName()}`,
-        phone: faker.string.numeric(22),
+      reservationMode: 'api',
+      guestDetailsOverride: async ({}, use) => {
+        await use({
+          firstName: faker.string.alpha(19),
+          lastName: faker.string.alpha(31),
+          email: `@f${faker.internet.domainName()}`,
+          phone: faker.string.numeric(22),
+        });
       },
     });
 
     testWithOptionalReservation('Should check that the populated form errors are present', async ({ reservation, roomDetailsPage }) => {
-      await verifyValidationErrors(reservation.page, roomDetailsPage.guestDetailsError, GUEST_DETAILS_FORM_ERRORS.POPULATED_SUBMISSION);
+      await expect(roomDetailsPage.guestDetailsError).toShowFieldValidationErrors(
+        GUEST_DETAILS_FORM_RULES,
+        GUEST_DETAILS_FORM_ERRORS.POPULATED_SUBMISSION
+      );
     });
   });
+
+  testWithOptionalReservation.describe('Guest Details Validation: Boundary Values', () => {
+    for (const boundaryCase of generateBoundaryCases(GUEST_DETAILS_FORM_RULES)) {
+      testWithOptionalReservation.describe(boundaryCase.title, () => {
+        testWithOptionalReservation.use({
+          stopAt: 'bookingVerification',
+          reservationMode: 'api',
+          guestDetailsOverride: async ({}, use) => {
+            await use(boundaryCase.buildForm());
+          },
+        });
+
+        if (boundaryCase.expectedErrors.length > 0) {
+          testWithOptionalReservation(
+            `Should show only: ${boundaryCase.expectedErrors.join(', ')}`,
+            async ({ reservation, roomDetailsPage }) => {
+              await expect(roomDetailsPage.guestDetailsError).toShowFieldValidationErrors(GUEST_DETAILS_FORM_RULES, {
+                [boundaryCase.field]: boundaryCase.expectedErrors,
+              });
+            }
+          );
+        } else {
+          testWithOptionalReservation('Should accept the booking', async ({ reservation, roomDetailsPage }) => {
+            await expect(roomDetailsPage.bookingConfirmedTitle).toBeVisible();
+            expect(reservation.bookingId).toBeDefined();
+          });
+        }
+      });
+    }
+  });
 });
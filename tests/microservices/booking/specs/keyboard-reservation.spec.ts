@@ -0,0 +1,56 @@
+/**
+ * @file This file contains a keyboard-only run of the reservation journey. The `reservation` fixture walks
+ * the booking path with Tab, Enter and the arrow keys (`reservationMode: 'keyboard'`): both dates are picked
+ * in the date picker, the room is opened, the guest form is typed in and the booking confirmed without a mouse.
+ *
+ * Every control on the way is checked for being reachable with Tab, in page order, and for showing visible
+ * focus. The controls reached and any issues are attached to the test as `keyboard-journey`, and the test
+ * fails with the list of controls a keyboard user could not reach.
+ */
+
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+import { KeyboardDriver } from '../../../common/utils/keyboard-driver';
+
+testWithOptionalReservation.describe('Reservation Management: Keyboard-Only Booking', () => {
+  testWithOptionalReservation.use({
+    stopAt: 'complete',
+    reservationMode: 'keyboard',
+  });
+
+  testWithOptionalReservation(
+    'Should book a room and return home using only the keyboard',
+    async ({ reservation, homePage, guestDetails, adminApi }) => {
+      await expect(homePage.pageTitle).toBeVisible();
+      expect(reservation.bookingId).toBeDefined();
+      expect(await adminApi.bookings.getBookingById(reservation.bookingId!)).toMatchObject({
+        roomid: reservation.selectedRoom!.roomId,
+        firstname: guestDetails.firstName,
+        lastname: guestDetails.lastName,
+        bookingdates: { checkin: guestDetails.checkInDate, checkout: guestDetails.checkOutDate },
+      });
+    }
+  );
+
+  testWithOptionalReservation(
+    'Should reach every control of the journey with Tab, in order, with visible focus',
+    async ({ reservation }, testInfo) => {
+      const issues = reservation.keyboardIssues ?? [];
+
+      await testInfo.attach('keyboard-journey', {
+        body: [
+          'Focus order:',
+          ...(reservation.keyboardFocusOrder ?? []).map((control, index) => `  ${index + 1}. ${control}`),
+          '',
+          issues.length === 0
+            ? 'No keyboard issues found.'
+            : `Keyboard issues (${issues.length}):\n${KeyboardDriver.describeIssues(issues)}`,
+        ].join('\n'),
+        contentType: 'text/plain',
+      });
+
+      const unreachable = issues.filter(issue => issue.problem === 'unreachable').map(issue => issue.element);
+      expect(unreachable, `Controls a keyboard user cannot reach with Tab: ${unreachable.join(', ')}`).toEqual([]);
+      expect(issues, `Keyboard issues on the reservation journey:\n${KeyboardDriver.describeIssues(issues)}`).toEqual([]);
+    }
+  );
+});
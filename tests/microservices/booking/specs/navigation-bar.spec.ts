@@ -1,10 +1,11 @@
 /**
  * @file This file contains Playwright tests for validating the functionality of the navigation bar
  * across different sections of the application. It ensures that clicking each navigation link
- * directs the user to the correct page or section.
+ * directs the user to the correct page or section, both with the desktop layout and on a narrow
+ * viewport, where the links are collapsed behind the hamburger menu.
  */
 
-import { testWithOptionalReservation } from '../../../common/fixtures/page-fixture';
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
 import { createNavigationActions } from '../../../common/utils/shared-helpers';
 
 testWithOptionalReservation.describe('Navigation Bar', () => {
@@ -33,4 +34,37 @@ testWithOptionalReservation.describe('Navigation Bar', () => {
       }
     );
   });
+
+  testWithOptionalReservation.describe('Navigation Bar: Collapsed menu on a narrow viewport', () => {
+    // Below the desktop breakpoint in every project, so desktop browsers check the collapsed layout too
+    testWithOptionalReservation.use({
+      stopAt: 'selectDates',
+      viewport: { width: 390, height: 844 },
+    });
+
+    testWithOptionalReservation('Should hide the links until the hamburger menu is opened', async ({ reservation, navigationBar }) => {
+      await expect(navigationBar.menuToggle).toBeInteractable();
+      await expect(navigationBar.roomsLink).toBeHidden();
+      expect(await navigationBar.isMenuCollapsed()).toBe(true);
+
+      await navigationBar.openMenuIfCollapsed();
+
+      await expect(navigationBar.roomsLink).toBeInteractable();
+      await expect(navigationBar.adminLink).toBeInteractable();
+      expect(await navigationBar.isMenuCollapsed()).toBe(false);
+      await expect(navigationBar.homeLink, 'The brand link stays outside the collapsible menu').toBeVisible();
+      expect(reservation.page.viewportSize()?.width).toBeLessThan(992);
+    });
+
+    testWithOptionalReservation('Should check the navigation bar links work through the hamburger menu', async ({ reservation }) => {
+      const navigationActions = createNavigationActions(reservation.page);
+
+      await navigationActions.clickBooking();
+      await navigationActions.clickRooms();
+      await navigationActions.clickLocation();
+      await navigationActions.clickContact();
+      await navigationActions.clickHome();
+      await navigationActions.clickAdmin();
+    });
+  });
 });
@@ -0,0 +1,47 @@
+/**
+ * @file This file contains Playwright tests for the itemised price summary on the reservation page.
+ * Every line (nightly charge, cleaning fee, service fee and total) is checked against the fee schedule,
+ * and a schedule with a per-room fee rule is used to check that a mismatch names the line item that is off.
+ */
+
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+import { calculateExpectedPriceBreakdown, DEFAULT_FEE_SCHEDULE } from '../../../common/utils/pricing';
+
+testWithOptionalReservation.describe('Reservation Page Price Summary', () => {
+  testWithOptionalReservation.use({
+    stopAt: 'enterGuestDetails',
+    reservationMode: 'api',
+    roomSelection: async ({ testRoom }, use) => {
+      await use({ by: 'id', roomId: testRoom.roomid });
+    },
+  });
+
+  testWithOptionalReservation(
+    'Should itemise the nightly charge, fees and total as the fee schedule expects',
+    async ({ reservation, roomDetailsPage, checkInDate, checkOutDate }) => {
+      const expectedBreakdown = calculateExpectedPriceBreakdown(reservation.selectedRoom!, checkInDate, checkOutDate);
+
+      await expect(roomDetailsPage.totalPriceDisplay).toDisplayPrice(expectedBreakdown.total);
+      expect(await roomDetailsPage.readPriceBreakdown()).toEqual(expectedBreakdown);
+      expect(reservation.pricing).toEqual({
+        nightlyRate: expectedBreakdown.nightlyRate,
+        nights: expectedBreakdown.nights,
+        totalPrice: expectedBreakdown.total,
+      });
+    }
+  );
+
+  testWithOptionalReservation(
+    'Should name the line item that differs from a per-room fee rule',
+    async ({ reservation, roomDetailsPage, testRoom, checkInDate, checkOutDate }) => {
+      const feeSchedule = {
+        ...DEFAULT_FEE_SCHEDULE,
+        roomRules: [{ roomId: testRoom.roomid, fees: { cleaningFee: DEFAULT_FEE_SCHEDULE.cleaningFee + 10 } }],
+      };
+
+      await expect(
+        roomDetailsPage.assertTotalPriceCalculationAndProceed(reservation.selectedRoom!, checkInDate, checkOutDate, feeSchedule)
+      ).rejects.toThrow(`Cleaning fee: expected £${DEFAULT_FEE_SCHEDULE.cleaningFee + 10}, displayed £${DEFAULT_FEE_SCHEDULE.cleaningFee}`);
+    }
+  );
+});
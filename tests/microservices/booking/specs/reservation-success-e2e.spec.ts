@@ -1,20 +1,15 @@
 /**
  * @file This file contains an end-to-end Playwright test suite for the full room reservation process,
- * from selecting a room to confirming the booking. It also includes an `afterEach` hook
- * to clean up the created booking via API, ensuring test data integrity.
+ * from selecting a room to confirming the booking. The created bookings are removed via API
+ * by the `resources` fixture once each test ends, ensuring test data integrity.
  */
 
-import { testWithOptionalReservation } from '../../../common/fixtures/page-fixture';
-import { cleanupBooking } from '../../../common/utils/api-helpers';
-import { expect } from '@playwright/test';
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+import { calculateNumberOfNights } from '../../../common/utils/shared-helpers';
+import { resolveFees } from '../../../common/utils/pricing';
 
 testWithOptionalReservation.describe('Reservation Management: End-to-End Success', () => {
   testWithOptionalReservation.describe('Reservation Management: Standard Full Booking Process', () => {
-    testWithOptionalReservation.afterEach(async ({ request, guestDetails }) => {
-      console.log('Attempting cleanup with guestDetails:', guestDetails);
-      await cleanupBooking(request, guestDetails);
-    });
-
     testWithOptionalReservation.use({
       stopAt: 'complete',
     });
@@ -22,5 +17,74 @@ testWithOptionalReservation.describe('Reservation Management: End-to-End Success
     testWithOptionalReservation('Should display reservation confirmation with correct details', async ({ reservation, baseURL }) => {
       await expect(reservation.page).toHaveURL(baseURL!);
     });
+
+    testWithOptionalReservation(
+      'Should capture the booking ID, request and displayed pricing from the reservation flow',
+      async ({ reservation, guestDetails, adminApi }) => {
+        const bookingDates = { checkin: guestDetails.checkInDate, checkout: guestDetails.checkOutDate };
+        const nights = calculateNumberOfNights(guestDetails.checkInDate, guestDetails.checkOutDate);
+        const { cleaningFee, serviceFee } = resolveFees(reservation.selectedRoom!);
+
+        expect(reservation.bookingRequest).toMatchObject({
+          roomid: reservation.selectedRoom!.roomId,
+          firstname: guestDetails.firstName,
+          lastname: guestDetails.lastName,
+          bookingdates: bookingDates,
+        });
+        expect(reservation.pricing).toEqual({
+          nightlyRate: reservation.selectedRoom!.price,
+          nights,
+          totalPrice: reservation.selectedRoom!.price * nights + cleaningFee + serviceFee,
+        });
+        expect(await adminApi.bookings.getBookingById(reservation.bookingId!)).toMatchObject({
+          roomid: reservation.selectedRoom!.roomId,
+          firstname: guestDetails.firstName,
+          lastname: guestDetails.lastName,
+          bookingdates: bookingDates,
+        });
+      }
+    );
+  });
+
+  testWithOptionalReservation.describe('Reservation Management: API-Seeded Booking', () => {
+    testWithOptionalReservation.use({
+      stopAt: 'complete',
+      reservationMode: 'api',
+    });
+
+    testWithOptionalReservation(
+      'Should seed the booking through the API and open the home page',
+      async ({ reservation, homePage, guestDetails, adminApi }) => {
+        await expect(homePage.pageTitle).toBeVisible();
+        expect(reservation.bookingId).toBeDefined();
+        expect(await adminApi.bookings.getBookingById(reservation.bookingId!)).toMatchObject({
+          roomid: guestDetails.roomId,
+          firstname: guestDetails.firstName,
+          lastname: guestDetails.lastName,
+          bookingdates: { checkin: guestDetails.checkInDate, checkout: guestDetails.checkOutDate },
+        });
+      }
+    );
+  });
+
+  testWithOptionalReservation.describe('Reservation Management: Room Selection Strategy', () => {
+    testWithOptionalReservation.use({
+      stopAt: 'complete',
+      roomSelection: async ({ testRoom }, use) => {
+        await use({ by: 'id', roomId: testRoom.roomid });
+      },
+    });
+
+    testWithOptionalReservation(
+      'Should book the room chosen by the strategy and record the choice as an annotation',
+      async ({ reservation, testRoom, guestDetails }, testInfo) => {
+        expect(reservation.selectedRoom).toEqual({ type: testRoom.type, price: testRoom.roomPrice, roomId: testRoom.roomid });
+        expect(guestDetails.roomId).toBe(testRoom.roomid);
+        expect(testInfo.annotations).toContainEqual({
+          type: 'room-selection',
+          description: `id(roomId=${testRoom.roomid}) -> ${testRoom.type} (ID: ${testRoom.roomid}, £${testRoom.roomPrice})`,
+        });
+      }
+    );
   });
 });
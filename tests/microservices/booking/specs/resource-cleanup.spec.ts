@@ -0,0 +1,60 @@
+/**
+ * @file This file contains API tests for the `resources` fixture. They check that rooms, bookings and
+ * messages created through the API clients are recorded in order, that cleanup removes them all,
+ * and that entities a test already deleted itself are not reported as failures.
+ */
+
+import { test, expect } from '../../../common/fixtures/page-fixture';
+import { faker } from '@faker-js/faker';
+
+test.describe('Resource Cleanup', () => {
+  test('Should record created entities in order and delete all of them', async ({ adminApi, resources }) => {
+    const room = await adminApi.rooms.createRoom({
+      roomName: `R${faker.string.numeric(4)}`,
+      type: 'Single',
+      accessible: false,
+      roomPrice: 90,
+      features: [],
+    });
+    const booking = await adminApi.bookings.createBooking({
+      roomid: room.roomid,
+      firstname: faker.person.firstName().padEnd(3, 'a').slice(0, 18),
+      lastname: faker.person.lastName().padEnd(3, 'a').slice(0, 30),
+      email: faker.internet.email(),
+      phone: faker.string.numeric(11),
+      depositpaid: false,
+      bookingdates: { checkin: '2030-03-01', checkout: '2030-03-04' },
+    });
+    const message = await adminApi.messages.createMessage({
+      name: faker.person.fullName(),
+      email: faker.internet.email(),
+      phone: faker.string.numeric(12),
+      subject: faker.string.alpha(10),
+      message: faker.string.alpha(30),
+    });
+
+    expect(resources.tracked).toEqual([
+      { type: 'room', id: room.roomid, source: 'api' },
+      { type: 'booking', id: booking.bookingid, source: 'api' },
+      { type: 'message', id: message.messageid, source: 'api' },
+    ]);
+
+    expect(await resources.cleanup()).toEqual([]);
+    expect(resources.tracked).toEqual([]);
+    expect((await adminApi.rooms.getRooms()).map(listedRoom => listedRoom.roomid)).not.toContain(room.roomid);
+    expect((await adminApi.messages.getMessages()).map(listedMessage => listedMessage.id)).not.toContain(message.messageid);
+  });
+
+  test('Should not report entities the test already deleted', async ({ adminApi, resources }) => {
+    const message = await adminApi.messages.createMessage({
+      name: faker.person.fullName(),
+      email: faker.internet.email(),
+      phone: faker.string.numeric(12),
+      subject: faker.string.alpha(10),
+      message: faker.string.alpha(30),
+    });
+    await adminApi.messages.deleteMessage(message.messageid);
+
+    expect(await resources.cleanup()).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @file This file contains Playwright tests for the admin branding screen. Branding is shared by
+ * the whole site, so the original branding is read through the API before each test and restored
+ * afterwards, and only the contact phone number is changed.
+ */
+
+import { testAsAdmin, expect } from '../../../common/fixtures/page-fixture';
+import { BrandingDetails } from '../../../common/utils/types';
+import { faker } from '@faker-js/faker';
+
+testAsAdmin.describe('Admin Branding', () => {
+  let originalBranding: BrandingDetails;
+
+  testAsAdmin.beforeEach(async ({ adminApi }) => {
+    originalBranding = await adminApi.branding.getBranding();
+  });
+
+  testAsAdmin.afterEach(async ({ adminApi }) => {
+    await adminApi.branding.updateBranding(originalBranding);
+  });
+
+  testAsAdmin('Should update the contact phone number shown on the front page', async ({ page, adminBrandingPage, homePage }) => {
+    const phone = faker.string.numeric(12);
+
+    await adminBrandingPage.goto();
+    await adminBrandingPage.updateBranding({ phone });
+    await adminBrandingPage.confirmBrandingUpdated();
+
+    await page.goto('/');
+    await expect(homePage.pageTitle).toBeVisible();
+    await expect(page.locator('#location')).toContainText(phone);
+  });
+
+  testAsAdmin('Should reject branding without a name', async ({ adminBrandingPage }) => {
+    await adminBrandingPage.goto();
+    await adminBrandingPage.updateBranding({ name: '' });
+
+    await expect(adminBrandingPage.brandingErrors).toShowValidationErrors(['Name should not be blank']);
+    await expect(adminBrandingPage.brandingUpdatedMessage).toBeHidden();
+  });
+});
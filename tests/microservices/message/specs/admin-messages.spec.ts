@@ -0,0 +1,47 @@
+/**
+ * @file This file contains Playwright tests for the admin messages inbox. Each test submits its
+ * own enquiry through `MessageAPI` and checks how it is listed, read and deleted in the inbox.
+ * Every test starts already logged in through the worker's admin session.
+ */
+
+import { testAsAdmin, expect } from '../../../common/fixtures/page-fixture';
+import { createAdminNavigationActions } from '../../../common/utils/shared-helpers';
+import { EnquiryDetails, Message } from '../../../common/utils/types';
+import { faker } from '@faker-js/faker';
+
+testAsAdmin.describe('Admin Messages', () => {
+  let enquiryDetails: EnquiryDetails;
+  let createdMessage: Message;
+
+  testAsAdmin.beforeEach(async ({ adminApi }) => {
+    enquiryDetails = {
+      name: faker.person.fullName(),
+      email: faker.internet.email(),
+      phone: faker.string.numeric(12),
+      subject: faker.string.alpha({ length: { min: 5, max: 100 } }),
+      message: faker.string.alpha({ length: { min: 20, max: 2000 } }),
+    };
+    createdMessage = await adminApi.messages.createMessage(enquiryDetails);
+  });
+
+  testAsAdmin('Should show a new enquiry as unread and mark it as read once opened', async ({ page, adminMessagesPage, adminApi }) => {
+    await page.goto('/admin/rooms');
+    await createAdminNavigationActions(page).clickMessages();
+
+    await adminMessagesPage.assertReadState(enquiryDetails, false);
+    await adminMessagesPage.openMessage(enquiryDetails);
+    await adminMessagesPage.assertMessageDetails(enquiryDetails);
+    await adminMessagesPage.closeMessage();
+
+    await adminMessagesPage.assertReadState(enquiryDetails, true);
+    const summary = (await adminApi.messages.getMessages()).find(message => message.id === createdMessage.messageid);
+    expect(summary?.read).toBe(true);
+  });
+
+  testAsAdmin('Should delete an enquiry from the inbox', async ({ adminMessagesPage, adminApi }) => {
+    await adminMessagesPage.goto();
+    await adminMessagesPage.deleteMessage(enquiryDetails);
+
+    expect((await adminApi.messages.getMessages()).map(message => message.id)).not.toContain(createdMessage.messageid);
+  });
+});
@@ -2,12 +2,17 @@
  * @file This file contains Playwright tests designed to validate the functionality
  * of the contact enquiry form on the application's home page. It includes test cases
  * for submitting the form with empty fields, invalid input, and valid data,
- * asserting the correct display of validation errors or success messages.
+ * asserting the correct display of validation errors or success messages. Successful
+ * submissions are also checked against the message API to confirm the enquiry was stored
+ * exactly as entered; the `resources` fixture deletes the stored message afterwards.
+ * Boundary values for every field are generated from `ENQUIRY_DETAILS_FORM_RULES` and run as one test each.
  */
 
 import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
-import { verifyValidationErrors } from '../../../common/utils/shared-helpers';
-import { ENQUIRY_DETAILS_FORM_ERRORS } from '../../../common/utils/constants';
+import { ENQUIRY_DETAILS_FORM_ERRORS, ENQUIRY_DETAILS_FORM_RULES } from '../../../common/utils/constants';
+import { generateBoundaryCases } from '../../../common/utils/boundary-values';
+import { findMessageByEnquiryDetails } from '../../../common/utils/api-helpers';
+import { EnquiryDetails } from '../../../common/utils/types';
 import { faker } from '@faker-js/faker';
 
 testWithOptionalReservation.describe('Enquiry Details Validation', () => {
@@ -27,7 +32,10 @@ testWithOptionalReservation.describe('Enquiry Details Validation', () => {
       'Should check that the empty form errors are present',
       async ({ reservation, homePage, enquiryDetailsOverride }) => {
         await homePage.fillEnquiryDetailsAndSubmit(enquiryDetailsOverride!);
-        await verifyValidationErrors(reservation.page, homePage.enquiryDetailsError, ENQUIRY_DETAILS_FORM_ERRORS.EMPTY_SUBMISSION);
+        await expect(homePage.enquiryDetailsError).toShowFieldValidationErrors(
+          ENQUIRY_DETAILS_FORM_RULES,
+          ENQUIRY_DETAILS_FORM_ERRORS.EMPTY_SUBMISSION
+        );
       }
     );
   });
@@ -35,12 +43,14 @@ testWithOptionalReservation.describe('Enquiry Details Validation', () => {
   testWithOptionalReservation.describe('Enquiry Details Validation: Invalid Input Submission', () => {
     testWithOptionalReservation.use({
       stopAt: 'selectDates',
-      enquiryDetailsOverride: {
-        name: faker.person.fullName(),
-        email: `@f${faker.internet.domainName()}`,
-        phone: faker.string.numeric(22),
-        subject: faker.string.alpha(101),
-        message: faker.string.alpha(2001),
+      enquiryDetailsOverride: async ({}, use) => {
+        await use({
+          name: faker.person.fullName(),
+          email: `@f${faker.internet.domainName()}`,
+          phone: faker.string.numeric(22),
+          subject: faker.string.alpha(101),
+          message: faker.string.alpha(2001),
+        });
       },
     });
 
@@ -48,7 +58,10 @@ testWithOptionalReservation.describe('Enquiry Details Validation', () => {
       'Should check that the populated form errors are present',
       async ({ reservation, homePage, enquiryDetailsOverride }) => {
         await homePage.fillEnquiryDetailsAndSubmit(enquiryDetailsOverride!);
-        await verifyValidationErrors(reservation.page, homePage.enquiryDetailsError, ENQUIRY_DETAILS_FORM_ERRORS.POPULATED_SUBMISSION);
+        await expect(homePage.enquiryDetailsError).toShowFieldValidationErrors(
+          ENQUIRY_DETAILS_FORM_RULES,
+          ENQUIRY_DETAILS_FORM_ERRORS.POPULATED_SUBMISSION
+        );
       }
     );
   });
@@ -56,23 +69,65 @@ testWithOptionalReservation.describe('Enquiry Details Validation', () => {
   testWithOptionalReservation.describe('Enquiry Details Validation: Successful Submission', () => {
     testWithOptionalReservation.use({
       stopAt: 'selectDates',
-      enquiryDetailsOverride: {
-        name: faker.person.fullName(),
-        email: faker.internet.email(),
-        phone: faker.string.numeric(faker.number.int({ min: 11, max: 21 })),
-        subject: faker.string.alpha({ length: { min: 5, max: 100 } }),
-        message: faker.string.alpha({ length: { min: 20, max: 2000 } }),
+      enquiryDetailsOverride: async ({}, use) => {
+        await use({
+          name: faker.person.fullName(),
+          email: faker.internet.email(),
+          phone: faker.string.numeric(faker.number.int({ min: 11, max: 21 })),
+          subject: faker.string.alpha({ length: { min: 5, max: 100 } }),
+          message: faker.string.alpha({ length: { min: 20, max: 2000 } }),
+        });
       },
     });
 
     testWithOptionalReservation(
       'Should successfully submit the enquiry form',
-      async ({ reservation, homePage, enquiryDetailsOverride }) => {
-        await homePage.fillEnquiryDetailsAndSubmit(enquiryDetailsOverride!);
-        await verifyValidationErrors(reservation.page, homePage.enquiryDetailsError, []);
-        await expect(homePage.successfulEnquirySubmisionMessage).toContainText(enquiryDetailsOverride?.name || '');
-        await expect(homePage.successfulEnquiruSubmissionSubject).toContainText(enquiryDetailsOverride?.subject || '');
+      async ({ reservation, homePage, enquiryDetailsOverride, adminApi }) => {
+        const enquiryDetails = enquiryDetailsOverride as EnquiryDetails;
+        await homePage.fillEnquiryDetailsAndSubmit(enquiryDetails);
+        await expect(homePage.enquiryDetailsError).toShowValidationErrors([]);
+        await expect(homePage.successfulEnquirySubmisionMessage).toContainText(enquiryDetails.name);
+        await expect(homePage.successfulEnquiruSubmissionSubject).toContainText(enquiryDetails.subject);
+
+        const storedMessage = await findMessageByEnquiryDetails(adminApi.messages, enquiryDetails);
+        expect(storedMessage).toMatchObject({
+          name: enquiryDetails.name,
+          email: enquiryDetails.email,
+          phone: enquiryDetails.phone,
+          subject: enquiryDetails.subject,
+          description: enquiryDetails.message,
+        });
       }
     );
   });
+
+  testWithOptionalReservation.describe('Enquiry Details Validation: Boundary Values', () => {
+    for (const boundaryCase of generateBoundaryCases(ENQUIRY_DETAILS_FORM_RULES)) {
+      testWithOptionalReservation.describe(boundaryCase.title, () => {
+        testWithOptionalReservation.use({
+          stopAt: 'selectDates',
+          enquiryDetailsOverride: async ({}, use) => {
+            await use(boundaryCase.buildForm());
+          },
+        });
+
+        if (boundaryCase.expectedErrors.length > 0) {
+          testWithOptionalReservation(
+            `Should show only: ${boundaryCase.expectedErrors.join(', ')}`,
+            async ({ reservation, homePage, enquiryDetailsOverride }) => {
+              await homePage.fillEnquiryDetailsAndSubmit(enquiryDetailsOverride!);
+              await expect(homePage.enquiryDetailsError).toShowFieldValidationErrors(ENQUIRY_DETAILS_FORM_RULES, {
+                [boundaryCase.field]: boundaryCase.expectedErrors,
+              });
+            }
+          );
+        } else {
+          testWithOptionalReservation('Should submit the enquiry', async ({ reservation, homePage, enquiryDetailsOverride }) => {
+            await homePage.fillEnquiryDetailsAndSubmit(enquiryDetailsOverride!);
+            await expect(homePage.successfulEnquirySubmisionMessage).toContainText(enquiryDetailsOverride!.name!);
+          });
+        }
+      });
+    }
+  });
 });
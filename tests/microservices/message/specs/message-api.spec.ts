@@ -0,0 +1,63 @@
+/**
+ * @file This file contains API tests for the message microservice. Each test submits its own
+ * enquiry through `MessageAPI`, checks how it is stored and managed in the admin inbox,
+ * and the `resources` fixture deletes it afterwards.
+ */
+
+import { test, expect } from '../../../common/fixtures/page-fixture';
+import { faker } from '@faker-js/faker';
+import { findMessageByEnquiryDetails, MessageAPI } from '../../../common/utils/api-helpers';
+import { EnquiryDetails, Message } from '../../../common/utils/types';
+
+test.describe('Message API', () => {
+  let messageApi: MessageAPI;
+  let enquiryDetails: EnquiryDetails;
+  let createdMessage: Message;
+
+  test.beforeEach(async ({ request }) => {
+    messageApi = new MessageAPI(request);
+    await messageApi.login();
+    enquiryDetails = {
+      name: faker.person.fullName(),
+      email: faker.internet.email(),
+      phone: faker.string.numeric(12),
+      subject: faker.string.alpha({ length: { min: 5, max: 100 } }),
+      message: faker.string.alpha({ length: { min: 20, max: 2000 } }),
+    };
+    createdMessage = await messageApi.createMessage(enquiryDetails);
+  });
+
+  test('Should list the new message as unread', async () => {
+    const messages = await messageApi.getMessages();
+
+    expect(messages).toContainEqual({
+      id: createdMessage.messageid,
+      name: enquiryDetails.name,
+      subject: enquiryDetails.subject,
+      read: false,
+    });
+  });
+
+  test('Should store the enquiry exactly as submitted', async () => {
+    const storedMessage = await findMessageByEnquiryDetails(messageApi, enquiryDetails);
+
+    expect(storedMessage.messageid).toBe(createdMessage.messageid);
+    expect(await messageApi.getMessageById(createdMessage.messageid)).toMatchObject({
+      name: enquiryDetails.name,
+      email: enquiryDetails.email,
+      phone: enquiryDetails.phone,
+      subject: enquiryDetails.subject,
+      description: enquiryDetails.message,
+    });
+  });
+
+  test('Should count the message as unread until it is marked as read', async () => {
+    // Other tests may add or read messages in parallel, so only the lower bound of the count is asserted
+    expect(await messageApi.getUnreadCount()).toBeGreaterThanOrEqual(1);
+
+    await messageApi.markAsRead(createdMessage.messageid);
+
+    const summary = (await messageApi.getMessages()).find(message => message.id === createdMessage.messageid);
+    expect(summary?.read).toBe(true);
+  });
+});
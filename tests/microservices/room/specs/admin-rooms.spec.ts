@@ -0,0 +1,78 @@
+/**
+ * @file This file contains Playwright tests for managing rooms in the admin panel: creating rooms
+ * from the rooms list, validating the create form, editing a room and deleting it.
+ * Every test starts already logged in through the worker's admin session.
+ */
+
+import { testAsAdmin, expect } from '../../../common/fixtures/page-fixture';
+import { RoomDetails } from '../../../common/utils/types';
+import { faker } from '@faker-js/faker';
+
+testAsAdmin.describe('Admin Rooms', () => {
+  testAsAdmin.describe('Admin Rooms: Create Room', () => {
+    testAsAdmin('Should create a room and show it in the room listing', async ({ adminRoomsPage, adminApi }) => {
+      const roomDetails: RoomDetails = {
+        roomName: `A${faker.string.numeric(4)}`,
+        type: 'Family',
+        accessible: true,
+        roomPrice: faker.number.int({ min: 50, max: 300 }),
+        features: ['WiFi', 'Refreshments'],
+      };
+
+      await adminRoomsPage.goto();
+      await adminRoomsPage.createRoom(roomDetails);
+
+      await adminRoomsPage.assertRoomListed(roomDetails);
+      const createdRoom = (await adminApi.rooms.getRooms()).find(room => room.roomName === roomDetails.roomName);
+      expect(createdRoom).toMatchObject(roomDetails);
+    });
+  });
+
+  testAsAdmin.describe('Admin Rooms: Create Room Validation', () => {
+    testAsAdmin('Should show the errors for a room without a name or a valid price', async ({ adminRoomsPage }) => {
+      await adminRoomsPage.goto();
+      await adminRoomsPage.createRoom({
+        roomName: '',
+        type: 'Single',
+        accessible: false,
+        roomPrice: '' as unknown as number,
+        features: [],
+      });
+
+      await expect(adminRoomsPage.roomErrors).toShowValidationErrors(['Room name must be set', 'must be greater than or equal to 1']);
+    });
+  });
+
+  testAsAdmin.describe('Admin Rooms: Edit Room', () => {
+    testAsAdmin(
+      'Should update the price and features of a room in the room editor',
+      async ({ testRoom, adminRoomEditorPage, adminApi }) => {
+        const { roomid, ...roomDetails } = testRoom;
+        const updatedDetails: RoomDetails = { ...roomDetails, roomPrice: 199, features: ['Safe', 'Views'] };
+
+        await adminRoomEditorPage.goto(roomid);
+        await adminRoomEditorPage.updateRoom({ roomPrice: updatedDetails.roomPrice, features: updatedDetails.features });
+
+        await adminRoomEditorPage.assertRoomDetails(updatedDetails);
+        expect(await adminApi.rooms.getRoomById(roomid)).toMatchObject({ roomPrice: 199, features: ['Safe', 'Views'] });
+      }
+    );
+  });
+
+  testAsAdmin.describe('Admin Rooms: Delete Room', () => {
+    testAsAdmin('Should delete a room from the room listing', async ({ adminRoomsPage, adminApi }) => {
+      const room = await adminApi.rooms.createRoom({
+        roomName: `D${faker.string.numeric(4)}`,
+        type: 'Twin',
+        accessible: false,
+        roomPrice: 90,
+        features: [],
+      });
+
+      await adminRoomsPage.goto();
+      await adminRoomsPage.deleteRoom(room.roomName);
+
+      expect((await adminApi.rooms.getRooms()).map(listedRoom => listedRoom.roomid)).not.toContain(room.roomid);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * @file This file contains API tests for the room microservice. Each test works against a
+ * dedicated room created by the `testRoom` fixture, which is removed again once the test ends.
+ */
+
+import { testWithOptionalReservation, expect } from '../../../common/fixtures/page-fixture';
+
+testWithOptionalReservation.describe('Room API', () => {
+  testWithOptionalReservation.describe('Room API: Dedicated Test Room', () => {
+    testWithOptionalReservation.use({
+      testRoomOverride: {
+        type: 'Suite',
+        roomPrice: 321,
+        features: ['TV', 'Safe', 'Views'],
+      },
+    });
+
+    testWithOptionalReservation('Should create the room with the requested type, price and features', async ({ testRoom }) => {
+      expect(testRoom.roomid).toBeGreaterThan(0);
+      expect(testRoom).toMatchObject({ type: 'Suite', roomPrice: 321, features: ['TV', 'Safe', 'Views'] });
+    });
+
+    testWithOptionalReservation('Should list the room and get it by its ID', async ({ adminApi, testRoom }) => {
+      const rooms = await adminApi.rooms.getRooms();
+      expect(rooms.map(room => room.roomid)).toContain(testRoom.roomid);
+      expect(await adminApi.rooms.getRoomById(testRoom.roomid)).toEqual(testRoom);
+    });
+
+    testWithOptionalReservation('Should update the room price', async ({ adminApi, testRoom }) => {
+      const { roomid, ...roomDetails } = testRoom;
+      const updatedRoom = await adminApi.rooms.updateRoom(roomid, { ...roomDetails, roomPrice: 123 });
+
+      expect(updatedRoom.roomPrice).toBe(123);
+      expect((await adminApi.rooms.getRoomById(roomid)).roomPrice).toBe(123);
+    });
+  });
+
+  testWithOptionalReservation.describe('Room API: Deletion', () => {
+    testWithOptionalReservation('Should delete a room so it is no longer listed', async ({ adminApi }) => {
+      const room = await adminApi.rooms.createRoom({
+        roomName: 'D001',
+        type: 'Single',
+        accessible: false,
+        roomPrice: 80,
+        features: [],
+      });
+
+      await adminApi.rooms.deleteRoom(room.roomid);
+
+      const rooms = await adminApi.rooms.getRooms();
+      expect(rooms.map(listedRoom => listedRoom.roomid)).not.toContain(room.roomid);
+    });
+  });
+});